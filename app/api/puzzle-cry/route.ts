@@ -0,0 +1,114 @@
+/* -------------------------------------------------------------------------- */
+/*                        app/api/puzzle-cry/route.ts                         */
+/* -------------------------------------------------------------------------- */
+/*
+  Plays the cry of a puzzle's answer once the cry hint is unlocked.
+
+  The URL only names the puzzle, never the Pokémon: the answer is resolved
+  on the server, the same way guesses are checked.
+
+  Request:
+  - GET /api/puzzle-cry?kind=daily&track=<track>
+  - GET /api/puzzle-cry?kind=archive&date=<YYYY-MM-DD>&track=<track>
+  - GET /api/puzzle-cry?kind=unlimited&id=<puzzle id>[&gen=..&type=..]
+
+  Audio source:
+  - Bundled file in lib/pokemon/data/cries (see `npm run catalog -- --cries`)
+  - Otherwise the catalog's cry URL, cached by Next's data cache
+
+  Responses:
+  - 200 audio/ogg
+  - 400 for an invalid puzzle reference
+  - 403 while the cry hint is still locked
+  - 404 if there is no puzzle or the answer has no cry
+  - 502 if the cry could not be downloaded
+*/
+
+import { readFile } from "fs/promises"; // Bundled cries
+import path from "path";
+import { getPuzzleView } from "@/lib/actions/guess"; // Player progress
+import { CRIES_DIR } from "@/lib/pokemon/catalog"; // Bundled cry location
+import { getPokemonProfile } from "@/lib/pokemon/repository"; // Cry URL lookup
+import type { PuzzleRef } from "@/lib/puzzle"; // Puzzle references
+import { resolvePuzzle } from "@/lib/puzzleSession"; // Server-only answer lookup
+import { parseTrack } from "@/lib/tracks"; // Daily tracks
+import { parseUnlimitedFilters } from "@/lib/unlimitedFilters"; // Pool filters
+
+// Parse the puzzle reference from the query string
+function parsePuzzleRef(searchParams: URLSearchParams): PuzzleRef | null {
+  const kind = searchParams.get("kind");
+  const id = searchParams.get("id");
+  const date = searchParams.get("date");
+  const track = parseTrack(searchParams.get("track"));
+
+  if (kind === "daily") return { kind: "daily", track };
+  if (kind === "archive" && date) return { kind: "archive", date, track };
+  if (kind === "unlimited" && id) {
+    return { kind: "unlimited", id, filters: parseUnlimitedFilters(searchParams) };
+  }
+  return null;
+}
+
+// Bundled cry if present, otherwise the (cached) remote file (null if the
+// download fails)
+async function loadCry(pokemonName: string, cryUrl: string) {
+  try {
+    return await readFile(path.join(CRIES_DIR, `${pokemonName}.ogg`));
+  } catch {
+    // Not bundled: download it
+  }
+
+  try {
+    const response = await fetch(cryUrl, { cache: "force-cache" });
+    if (!response.ok) return null;
+    return Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    // Network error (DNS, connection reset, ...)
+    console.error("Error downloading cry:", error);
+    return null;
+  }
+}
+
+export async function GET(request: Request) {
+  const puzzle = parsePuzzleRef(new URL(request.url).searchParams);
+
+  if (!puzzle) {
+    return new Response("Invalid puzzle", { status: 400 });
+  }
+
+  /* ------------------------- Check Hint Is Unlocked ------------------------ */
+
+  const view = await getPuzzleView(puzzle);
+  const cryHint = view?.hints.find((hint) => hint.id === "cry");
+
+  if (!view || !cryHint) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  if (!cryHint.unlocked) {
+    return new Response("Hint is locked", { status: 403 });
+  }
+
+  /* ------------------------------ Serve Audio ------------------------------ */
+
+  const resolved = await resolvePuzzle(puzzle);
+  const answer = resolved ? getPokemonProfile(resolved.answerName) : null;
+
+  if (!answer?.cry) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const audio = await loadCry(answer.name, answer.cry);
+
+  if (!audio) {
+    return new Response("Cry unavailable", { status: 502 });
+  }
+
+  return new Response(new Uint8Array(audio), {
+    headers: {
+      "Content-Type": "audio/ogg",
+      // Same URL plays a different Pokémon tomorrow
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,59 @@
+/* -------------------------------------------------------------------------- */
+/*                       app/api/puzzle-image/route.ts                        */
+/* -------------------------------------------------------------------------- */
+/*
+  Serves one stage of the answer's artwork (silhouette, pixelated, blurred
+  or full), rendered on the server.
+
+  Request:
+  - GET /api/puzzle-image?t=<token>
+    The token comes from an unlocked image hint (see lib/puzzleImage.ts)
+
+  Responses:
+  - 200 image/png
+  - 404 if the token is invalid or the Pokémon has no artwork
+  - 502 if the artwork could not be downloaded
+*/
+
+import { getPokemonProfile } from "@/lib/pokemon/repository"; // Artwork URL lookup
+import { readImageToken, renderImageStage } from "@/lib/puzzleImage"; // Token + rendering
+
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get("t");
+  const payload = token ? readImageToken(token) : null;
+
+  const artworkUrl = payload
+    ? getPokemonProfile(payload.name)?.sprites.artwork
+    : null;
+
+  if (!payload || !artworkUrl) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  // Original artwork (cached by Next's data cache between requests)
+  let artwork: Buffer;
+
+  try {
+    const response = await fetch(artworkUrl, { cache: "force-cache" });
+
+    if (!response.ok) {
+      return new Response("Artwork unavailable", { status: 502 });
+    }
+
+    artwork = Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    // Network error (DNS, connection reset, ...)
+    console.error("Error downloading artwork:", error);
+    return new Response("Artwork unavailable", { status: 502 });
+  }
+
+  const image = await renderImageStage(artwork, payload.stage);
+
+  return new Response(new Uint8Array(image), {
+    headers: {
+      "Content-Type": "image/png",
+      // Tokens are unique per puzzle and stage, so the response never changes
+      "Cache-Control": "private, max-age=86400, immutable",
+    },
+  });
+}
@@ -0,0 +1,150 @@
+/* -------------------------------------------------------------------------- */
+/*                         app/archive/[date]/page.tsx                        */
+/* -------------------------------------------------------------------------- */
+/*
+  Archive page: replay a past daily puzzle (of any track, ?track=).
+
+  Responsibilities:
+  - Get authenticated user (if logged in)
+  - Determine if user is admin
+  - Send the player's today (in their timezone) to the live daily puzzle ("/")
+  - Build the redacted view of the past puzzle (404 for unknown/future days)
+  - Fetch user stats (optional, if logged in)
+  - Render GameFrame layout + GameClient
+
+  Archive results are stored apart from the live daily game (games.mode =
+  "archive", or the progress cookie for guests), so they never change the
+  daily streak or stats.
+*/
+
+/* --------------------------------- Imports -------------------------------- */
+
+import Link from "next/link"; // Client-side navigation
+import { notFound, redirect } from "next/navigation"; // Routing helpers
+import { createClient } from "@/lib/supabase/server"; // Server-side Supabase client
+import GameFrame from "../../components/GameFrame"; // Shared layout wrapper
+import GameClient from "../../components/GameClient"; // Main interactive game client component
+import { getPuzzleView } from "@/lib/actions/guess"; // Redacted puzzle view
+import { getUserStats } from "@/lib/actions/stats"; // User stats query
+import { getTrack, parseTrack } from "@/lib/tracks"; // Daily tracks
+import { getPlayerToday } from "@/lib/playerTimeZone"; // Player's day
+
+/* ------------------------------ Date Helpers ------------------------------- */
+
+// Format "YYYY-MM-DD" into a human-readable US date label.
+function formatDate(value: string) {
+  // Force midnight UTC to avoid timezone shifting issues when rendering dates
+  const date = new Date(`${value}T00:00:00.000Z`);
+
+  // Example output: "Feb 17, 2026"
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Page Component                              */
+/* -------------------------------------------------------------------------- */
+
+type Props = {
+  params: Promise<{ date: string }>; // "YYYY-MM-DD"
+  searchParams: Promise<{ track?: string }>; // Daily track (default classic)
+};
+
+export default async function Page({ params, searchParams }: Props) {
+  const { date } = await params;
+  const track = parseTrack((await searchParams).track);
+
+  /* --------------------------- Today Is Live ------------------------------ */
+
+  // Today's puzzle is played on the main page (and counts for the streak)
+  const todayIso = await getPlayerToday();
+
+  if (date === todayIso) {
+    redirect(`/?track=${track}`);
+  }
+
+  /* ----------------------------- Auth Handling ----------------------------- */
+
+  // Create Supabase server client
+  const supabase = await createClient();
+
+  // Get authenticated user (if logged in)
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  /* ------------------------------ Admin Check ------------------------------ */
+
+  let isAdmin = false;
+
+  if (user) {
+    // Read admin flag from profiles table
+    const { data } = await supabase
+      .from("profiles")
+      .select("admin")
+      .eq("id", user.id)
+      .single();
+
+    isAdmin = data?.admin || false;
+  }
+
+  /* --------------------------- Redacted View ------------------------------ */
+
+  let view: Awaited<ReturnType<typeof getPuzzleView>>;
+
+  try {
+    // Only past days with a daily_pokemon row resolve
+    view = await getPuzzleView({ kind: "archive", date, track });
+  } catch (error) {
+    console.error("Error fetching pokemon:", error);
+    return <div className="text-white">Error loading pokemon data</div>;
+  }
+
+  if (!view) {
+    notFound();
+  }
+
+  /* ------------------------------ User Stats ------------------------------- */
+
+  // Daily stats only (archive replays are not part of them)
+  const stats = user ? await getUserStats(track) : null;
+
+  /* ------------------------------ Render Page ------------------------------ */
+
+  return (
+    <GameFrame
+      // Center header button: back to the list of past days
+      headerCenter={
+        <Link href={`/history?track=${track}`}>
+          <button className="border border-white/[0.14] bg-black/10 text-[#e8eefc] py-2.5 px-3.5 rounded-xl font-bold cursor-pointer">
+            Back to History
+          </button>
+        </Link>
+      }
+    >
+      {/* Which day is being replayed */}
+      <div className="flex flex-col items-center gap-1 text-center">
+        <h1 className="text-white text-2xl font-bold">
+          Archive: {formatDate(date)}
+        </h1>
+        <p className="text-[#9aa6c3]">{getTrack(track).label}</p>
+        <p className="text-[#9aa6c3] text-sm">
+          Replays don{"'"}t count towards your daily streak.
+        </p>
+      </div>
+
+      {/* Main interactive game component */}
+      <GameClient
+        view={view}                // Redacted puzzle state
+        isSignedIn={!!user}        // Whether the player is logged in
+        nextGuessAt=""             // No daily cooldown in the archive
+        today={todayIso}           // Player's date (stats)
+        stats={stats}              // User stats (optional)
+        isAdmin={isAdmin}          // Admin flag (optional tools)
+      />
+    </GameFrame>
+  );
+}
@@ -0,0 +1,52 @@
+/* -------------------------------------------------------------------------- */
+/*                            app/blitz/page.tsx                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Blitz mode page: as many Pokémon as possible before the clock runs out.
+
+  Responsibilities:
+  - Load the player's latest run (redacted) and personal best
+  - Render GameFrame layout + BlitzClient
+
+  The clock is kept on the server (lib/blitz); the page only passes the
+  remaining time along for display.
+*/
+
+/* --------------------------------- Imports -------------------------------- */
+
+import Link from "next/link"; // Client-side navigation
+import GameFrame from "../components/GameFrame"; // Shared layout wrapper
+import BlitzClient from "../components/BlitzClient"; // Blitz game client
+import { getBlitzState } from "@/lib/actions/blitz"; // Latest run + best
+
+/* -------------------------------------------------------------------------- */
+/*                                Page Component                              */
+/* -------------------------------------------------------------------------- */
+
+export default async function Page() {
+  let state: Awaited<ReturnType<typeof getBlitzState>>;
+
+  try {
+    state = await getBlitzState();
+  } catch (error) {
+    console.error("Error loading blitz run:", error);
+    return <div className="text-white">Error loading pokemon data</div>;
+  }
+
+  /* ------------------------------ Render Page ------------------------------ */
+
+  return (
+    <GameFrame
+      // Center header button: back to the daily puzzle
+      headerCenter={
+        <Link href="/">
+          <button className="border border-white/[0.14] bg-black/10 text-[#e8eefc] py-2.5 px-3.5 rounded-xl font-bold cursor-pointer">
+            Daily Puzzle
+          </button>
+        </Link>
+      }
+    >
+      <BlitzClient initialState={state} />
+    </GameFrame>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+// -----------------------------------------------------------------------------
+// AdminAlerts.tsx
+// -----------------------------------------------------------------------------
+// Open admin alerts (e.g. today's puzzle was picked by the fallback because
+// the schedule ran out), shown to admins above the game.
+// - One row per alert with a "Resolve" button
+// - Resolved alerts disappear right away (the server marks them resolved)
+// -----------------------------------------------------------------------------
+
+import { useState } from "react";
+import { TriangleAlert } from "lucide-react"; // Alert icon
+import { resolveAdminAlert, type AdminAlert } from "@/lib/actions/admin"; // Server actions
+
+type Props = {
+  alerts: AdminAlert[]; // Open alerts (server-provided)
+};
+
+export default function AdminAlerts({ alerts: initialAlerts }: Props) {
+  const [alerts, setAlerts] = useState(initialAlerts);
+
+  async function handleResolve(id: string) {
+    if (await resolveAdminAlert(id)) {
+      setAlerts((current) => current.filter((alert) => alert.id !== id));
+    }
+  }
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-[760px] flex flex-col gap-2">
+      {alerts.map((alert) => (
+        <div
+          key={alert.id}
+          className="rounded-xl border border-yellow-300/40 bg-yellow-300/10 px-4 py-3 text-sm text-[#e8eefc] flex items-center gap-3"
+        >
+          <TriangleAlert size={18} className="shrink-0 text-yellow-300" />
+          <span className="flex-1">{alert.message}</span>
+          <button
+            type="button"
+            onClick={() => handleResolve(alert.id)}
+            className="px-3 py-1 rounded-lg text-white font-bold hover:bg-white/10 transition-colors cursor-pointer"
+          >
+            Resolve
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
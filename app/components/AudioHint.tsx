@@ -0,0 +1,90 @@
+"use client";
+
+/* -------------------------------------------------------------------------- */
+/*                                 AudioHint                                  */
+/* -------------------------------------------------------------------------- */
+/*
+  Audio hint chip (e.g. the Pokémon's cry).
+
+  - Locked: shows "<label>: ???"
+  - Unlocked: play button (audio is streamed from the hint's route URL)
+  - Mute toggle stored per browser (lib/soundSettings); nothing plays
+    while muted
+*/
+
+import { useEffect, useRef, useState } from "react";
+import { Play, Volume2, VolumeX } from "lucide-react"; // Icons
+import type { RevealedHint } from "@/lib/hints/registry"; // Redacted hint
+import { isMuted, setMuted } from "@/lib/soundSettings"; // Mute setting
+
+type Props = {
+  hint: RevealedHint;
+};
+
+export default function AudioHint({ hint }: Props) {
+  // Mute setting (read after mount, localStorage is browser-only)
+  const [muted, setMutedState] = useState(false);
+
+  // Audio element, created on first play so nothing loads before that
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    setMutedState(isMuted());
+  }, []);
+
+  // Stop playback when the player mutes
+  useEffect(() => {
+    if (muted) audioRef.current?.pause();
+  }, [muted]);
+
+  const toggleMute = () => {
+    setMuted(!muted);
+    setMutedState(!muted);
+  };
+
+  const play = () => {
+    if (muted || !hint.value) return;
+
+    if (!audioRef.current) {
+      audioRef.current = new Audio(hint.value);
+    }
+
+    audioRef.current.currentTime = 0;
+    void audioRef.current.play().catch(() => {
+      // Autoplay restrictions / missing audio: nothing to do
+    });
+  };
+
+  /* ------------------------------------------------------------------------ */
+  /*                                 Render                                   */
+  /* ------------------------------------------------------------------------ */
+  return (
+    <div className="rounded-full py-1.5 pl-3.5 pr-1.5 bg-black/22 border border-white/12 text-white hover:bg-black/30 flex items-center gap-2">
+      <span>{hint.label}:</span>
+
+      {hint.unlocked && hint.value ? (
+        <>
+          <button
+            type="button"
+            onClick={play}
+            disabled={muted}
+            className="w-8 h-8 rounded-full grid place-items-center bg-white/10 hover:bg-white/20 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+            aria-label={`Play ${hint.label.toLowerCase()}`}
+          >
+            <Play size={16} />
+          </button>
+          <button
+            type="button"
+            onClick={toggleMute}
+            className="w-8 h-8 rounded-full grid place-items-center hover:bg-white/10 cursor-pointer"
+            aria-label={muted ? "Unmute sounds" : "Mute sounds"}
+          >
+            {muted ? <VolumeX size={16} /> : <Volume2 size={16} />}
+          </button>
+        </>
+      ) : (
+        <span className="pr-2">{hint.unlocked ? "?" : "???"}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+"use client";
+
+/* -------------------------------------------------------------------------- */
+/*                                BlitzClient                                 */
+/* -------------------------------------------------------------------------- */
+/*
+  Timed blitz mode client.
+
+  Covers:
+  - Start screen with the last score and the personal best (guests are
+    told their scores stay in this browser and are not ranked)
+  - Countdown, score and round while a run is going
+  - Current round: image, Hints, per-guess feedback and SearchPokemon
+  - Result of the previous round (solved or the answer it was)
+
+  The countdown is display only. The server times every guess and decides
+  when the run is over; when the countdown reaches zero the component asks
+  the server for the final state.
+*/
+
+import { useEffect, useState } from "react"; // React state
+import Image from "next/image"; // Next optimized images
+import SearchPokemon from "./SearchPokemon"; // Search UI
+import Hints from "./Hints"; // Hints UI
+import GuessFeedback from "./GuessFeedback"; // Per-guess comparison tiles
+import {
+  getBlitzState,
+  startBlitzRun,
+  submitBlitzGuess,
+  type BlitzState,
+} from "@/lib/actions/blitz"; // Server actions
+import { Timer, Trophy, Zap } from "lucide-react"; // Icons
+
+/* ------------------------------- Prop Types -------------------------------- */
+
+type Props = {
+  initialState: BlitzState; // Latest run + personal best (server-provided)
+};
+
+// Previous round as shown above the current one
+type LastRound = {
+  answer: string;
+  solved: boolean;
+};
+
+// Utility: Capitalizes the first character in a string (e.g. "pikachu" -> "Pikachu")
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// Remaining time as m:ss
+function formatClock(ms: number) {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/* ------------------------------ Component ---------------------------------- */
+
+export default function BlitzClient({ initialState }: Props) {
+  /* -------------------------------- State --------------------------------- */
+
+  // Latest run + best (replaced by the server after every action)
+  const [state, setState] = useState<BlitzState>(initialState);
+  const view = state.view;
+  const isRunning = !!view && !view.isOver;
+
+  // Local deadline for the countdown (display only)
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [remainingMs, setRemainingMs] = useState(view?.remainingMs ?? 0);
+
+  // Previous round result
+  const [lastRound, setLastRound] = useState<LastRound | null>(null);
+
+  // Message for the last rejected guess / failed start
+  const [error, setError] = useState<string | null>(null);
+
+  // Start button pending
+  const [starting, setStarting] = useState(false);
+
+  /* ------------------------------- Countdown ------------------------------- */
+
+  // Every server view restarts the countdown from its remaining time
+  useEffect(() => {
+    setDeadline(isRunning ? Date.now() + view.remainingMs : null);
+    setRemainingMs(view?.remainingMs ?? 0);
+  }, [view, isRunning]);
+
+  useEffect(() => {
+    if (deadline === null) return;
+
+    const interval = setInterval(() => {
+      const left = Math.max(0, deadline - Date.now());
+      setRemainingMs(left);
+
+      // Time is up locally: let the server settle the run
+      if (left === 0) {
+        clearInterval(interval);
+        getBlitzState().then(setState);
+      }
+    }, 250);
+
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  /* ------------------------------ Handlers --------------------------------- */
+
+  async function handleStart() {
+    setStarting(true);
+    const next = await startBlitzRun();
+    setStarting(false);
+
+    if (!next) {
+      setError("Could not start a run. Please try again.");
+      return;
+    }
+
+    setError(null);
+    setLastRound(null);
+    setState(next);
+  }
+
+  async function handleGuess(guessName: string) {
+    if (!view || !isRunning) return;
+
+    const result = await submitBlitzGuess(guessName, view.runId);
+
+    if (!result.ok) {
+      setError(result.error.message);
+
+      // Run is over (or replaced): show what the server has
+      if (result.error.code === "TIME_UP" || result.error.code === "NO_RUN") {
+        setState(await getBlitzState());
+      }
+      return;
+    }
+
+    setError(null);
+    setState(result.state);
+
+    if (result.finishedRound?.answer) {
+      setLastRound({
+        answer: result.finishedRound.answer,
+        solved: result.correct,
+      });
+    }
+  }
+
+  /* -------------------------------- Render -------------------------------- */
+
+  // Start / result screen
+  if (!isRunning) {
+    return (
+      <div className="w-full max-w-[420px] rounded-2xl border border-white/10 bg-linear-to-b from-[rgba(17,28,51,0.92)] to-[rgba(15,23,42,0.92)] p-6 flex flex-col items-center gap-4 text-center">
+        <h1 className="text-white text-2xl font-extrabold flex items-center gap-2">
+          <Zap size={24} className="text-yellow-300" />
+          Blitz
+        </h1>
+
+        {view ? (
+          <p className="text-white text-lg">
+            Time{"'"}s up! You solved{" "}
+            <span className="font-bold text-yellow-300">{view.score}</span>{" "}
+            Pokémon.
+          </p>
+        ) : (
+          <p className="text-[#9aa6c3]">
+            Solve as many Pokémon as you can before the clock runs out. Each
+            one only gets a few guesses.
+          </p>
+        )}
+
+        {lastRound && !lastRound.solved && (
+          <p className="text-[#9aa6c3] text-sm">
+            The last one was {capitalize(lastRound.answer)}.
+          </p>
+        )}
+
+        <div className="flex items-center gap-2 text-[#9aa6c3]">
+          <Trophy size={18} />
+          Personal best:{" "}
+          <span className="text-white font-semibold">{state.best}</span>
+        </div>
+
+        {!state.ranked && (
+          <p className="text-[#9aa6c3] text-xs">
+            Guest scores stay in this browser and are not ranked. Sign in to
+            save your runs.
+          </p>
+        )}
+
+        <button
+          type="button"
+          onClick={handleStart}
+          disabled={starting}
+          className="px-6 py-2 rounded-xl bg-linear-to-r cursor-pointer from-green-500 to-emerald-500 text-white font-bold shadow hover:scale-105 transition-transform disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {view ? "Play Again" : "Start"}
+        </button>
+
+        {error && <div className="text-rose-400 text-sm">{error}</div>}
+      </div>
+    );
+  }
+
+  const current = view.current;
+
+  // Most revealed image stage unlocked so far
+  const image =
+    current?.hints.findLast((hint) => hint.kind === "image" && hint.unlocked)
+      ?.value ?? null;
+
+  return (
+    <div className="w-full flex justify-center">
+      <div className="w-full max-w-6xl flex flex-col items-center gap-4 sm:gap-6">
+        {/* ------------------------------------------------------------------ */}
+        {/*                          CLOCK + SCORE                              */}
+        {/* ------------------------------------------------------------------ */}
+        <div className="flex flex-wrap justify-center gap-2.5 text-white">
+          <div
+            className={`rounded-full py-2 px-4 bg-black/22 border border-white/12 font-bold flex items-center gap-2 ${
+              remainingMs <= 10_000 ? "text-rose-400" : ""
+            }`}
+          >
+            <Timer size={18} />
+            {formatClock(remainingMs)}
+          </div>
+          <div className="rounded-full py-2 px-4 bg-black/22 border border-white/12">
+            Score: <span className="font-bold text-yellow-300">{view.score}</span>
+          </div>
+          <div className="rounded-full py-2 px-4 bg-black/22 border border-white/12">
+            Round {view.round}
+          </div>
+          <div className="rounded-full py-2 px-4 bg-black/22 border border-white/12 flex items-center gap-2">
+            <Trophy size={16} />
+            {state.best}
+          </div>
+        </div>
+
+        {/* Previous round */}
+        {lastRound && (
+          <div
+            className={`text-sm font-semibold ${
+              lastRound.solved ? "text-green-400" : "text-rose-400"
+            }`}
+          >
+            {lastRound.solved
+              ? `✓ ${capitalize(lastRound.answer)}`
+              : `✗ It was ${capitalize(lastRound.answer)}`}
+          </div>
+        )}
+
+        {/* ------------------------------------------------------------------ */}
+        {/*                                IMAGE                               */}
+        {/* ------------------------------------------------------------------ */}
+        <div className="w-full max-w-[320px] aspect-square rounded-2xl border border-white/10 bg-linear-to-b from-[rgba(17,28,51,0.92)] to-[rgba(15,23,42,0.92)] grid place-items-center overflow-hidden">
+          {image ? (
+            <Image
+              src={image}
+              alt="Pokémon"
+              width={300}
+              height={300}
+              className="w-[85%] h-[85%] object-contain"
+              unoptimized // Already rendered by /api/puzzle-image
+              priority
+            />
+          ) : (
+            <span className="text-white text-6xl sm:text-7xl font-extrabold">
+              ?
+            </span>
+          )}
+        </div>
+
+        {current && (
+          <>
+            {/* ---------------------------------------------------------------- */}
+            {/*                                HINTS                             */}
+            {/* ---------------------------------------------------------------- */}
+            <div className="w-full flex justify-center">
+              <div className="w-full max-w-[760px]">
+                <Hints hints={current.hints} />
+              </div>
+            </div>
+
+            {/* ---------------------------------------------------------------- */}
+            {/*                              FEEDBACK                            */}
+            {/* ---------------------------------------------------------------- */}
+            <div className="w-full flex justify-center">
+              <div className="w-full max-w-[760px]">
+                <GuessFeedback feedback={current.feedback} />
+              </div>
+            </div>
+
+            {/* ---------------------------------------------------------------- */}
+            {/*                                SEARCH                            */}
+            {/* ---------------------------------------------------------------- */}
+            <div className="w-full flex justify-center">
+              <div className="w-full max-w-[760px]">
+                <SearchPokemon
+                  key={view.round} // Fresh input per round
+                  maxAttempts={current.maxAttempts}
+                  attemptsUsed={current.guesses.length}
+                  disabled={remainingMs === 0}
+                  onGuess={handleGuess}
+                  error={error}
+                />
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
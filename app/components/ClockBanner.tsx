@@ -0,0 +1,120 @@
+"use client";
+
+// -----------------------------------------------------------------------------
+// ClockBanner.tsx
+// -----------------------------------------------------------------------------
+// Simulated clock for QA (lib/clock), shown at the top of every page.
+// - While the clock is simulated: a banner with the simulated time (UTC)
+//   and where it comes from (env var or the admin's cookie); nothing is
+//   saved meanwhile
+// - Admins: a date-time field to move their clock and a button back to
+//   real time (the page reloads its data for the new day)
+// - Everyone else sees nothing while the clock is real
+// -----------------------------------------------------------------------------
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation"; // Refresh after moving the clock
+import { Clock } from "lucide-react"; // Icon
+import { clearSimulatedNow, setSimulatedNow } from "@/lib/actions/clock"; // Server Actions
+import type { ClockState } from "@/lib/clock"; // Clock offset
+
+type Props = {
+  clock: ClockState; // Offset for this request (server-provided)
+  isAdmin: boolean; // Admins can move the clock
+};
+
+// "2026-12-31T23:59" (UTC), as used by the date-time field
+function toFieldValue(at: number) {
+  return new Date(at).toISOString().slice(0, 16);
+}
+
+export default function ClockBanner({ clock, isAdmin }: Props) {
+  const router = useRouter();
+
+  // Simulated time, ticking (filled after mount to match the server render)
+  const [now, setNow] = useState<number | null>(null);
+  const [value, setValue] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const tick = () => setNow(Date.now() + clock.offsetMs);
+    tick();
+
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [clock.offsetMs]);
+
+  async function handleSet() {
+    const result = await setSimulatedNow(value);
+
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+
+    setError(null);
+    router.refresh();
+  }
+
+  async function handleReset() {
+    await clearSimulatedNow();
+    router.refresh();
+  }
+
+  if (!clock.source && !isAdmin) return null;
+
+  return (
+    <div
+      className={`relative z-10 w-full px-4 py-2 text-sm flex flex-wrap items-center justify-center gap-3 border-b ${
+        clock.source
+          ? "bg-yellow-300/15 border-yellow-300/40 text-[#e8eefc]"
+          : "bg-black/20 border-white/10 text-[#9aa6c3]"
+      }`}
+    >
+      <Clock size={16} className={clock.source ? "text-yellow-300" : ""} />
+
+      {clock.source ? (
+        <span>
+          Simulated time: {now ? new Date(now).toUTCString() : "…"}
+          {clock.source === "env" ? " (SIMULATED_NOW)" : " (this browser only)"}
+          {" · nothing is saved"}
+        </span>
+      ) : (
+        <span>Real time</span>
+      )}
+
+      {isAdmin && (
+        <>
+          <input
+            type="datetime-local"
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            onFocus={() => !value && now && setValue(toFieldValue(now))}
+            aria-label="Simulated time (UTC)"
+            className="bg-black/20 border border-white/12 rounded-lg py-1 px-2 text-[#e8eefc] text-xs"
+          />
+          <span className="text-xs text-[#9aa6c3]">UTC</span>
+          <button
+            type="button"
+            onClick={handleSet}
+            disabled={!value}
+            className="px-3 py-1 rounded-lg text-white font-bold hover:bg-white/10 transition-colors cursor-pointer disabled:opacity-50"
+          >
+            Time travel
+          </button>
+          {clock.source === "cookie" && (
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-3 py-1 rounded-lg text-white font-bold hover:bg-white/10 transition-colors cursor-pointer"
+            >
+              Back to real time
+            </button>
+          )}
+        </>
+      )}
+
+      {error && <span className="text-red-300 text-xs">{error}</span>}
+    </div>
+  );
+}
@@ -8,41 +8,55 @@
 
   Covers:
   - Attempts + win/lose state
-  - Submitting guesses (createGuess/endGame) when NOT unlimited
+  - Submitting guesses to the server (which decides correctness)
   - Win/Lose dialog (Radix)
   - Responsive layout (mobile stacks, desktop 3 columns)
   - Previous guesses panel
-  - Pokémon image reveal logic
+  - Staged Pokémon image reveal (silhouette -> pixelated -> blurred -> full,
+    each rendered server-side and only linked once unlocked)
   - Stats panel
-  - Hints + SearchPokemon
+  - Hints + per-guess feedback grid + SearchPokemon
   - Admin debug buttons
-  - Unlimited mode controls
+  - Unlimited mode controls (new puzzle without a page reload, "challenge
+    a friend" link to the same seed) and unlimited stats (shown next to the
+    daily stats, never mixed into them)
+  - Archive replays (past daily puzzles): saved by the server like any
+    guess, but never recorded in the daily stats/streak
+
+  The answer is never passed in as a whole: the component renders a redacted
+  PuzzleView and replaces it with the view returned by each guess.
 */
 
 import { useState, useEffect } from "react"; // React state
 import Link from "next/link"; // Next navigation
+import { useRouter } from "next/navigation"; // Client-side navigation
 import Image from "next/image"; // Next optimized images
 import SearchPokemon from "./SearchPokemon"; // Search UI
 import Hints from "./Hints"; // Hints UI
-import Pokedex from "pokedex-promise-v2"; // Types
+import GuessFeedback from "./GuessFeedback"; // Per-guess comparison tiles
 import * as Dialog from "@radix-ui/react-dialog"; // ✅ Correct Radix Dialog import
 import { Cross2Icon } from "@radix-ui/react-icons"; // Dialog close icon
-import { createGuess, endGame, getUserGame } from "@/lib/actions/guess"; // Server actions
-import { submitGuess, submitEndGame, initializeGame, isTodaysGameFinished } from "@/lib/gameSubmission"; // Game submission utilities
-import { getUserStats } from "@/lib/actions/stats"; // Fetch updated stats
+import { previewPuzzleResult } from "@/lib/actions/guess"; // Server actions
+import type { PuzzleView } from "@/lib/puzzle"; // Redacted puzzle state
+import { submitGuess, submitEndGame, submitUnlimitedEnd, initializeGame, isTodaysGameFinished } from "@/lib/gameSubmission"; // Game submission utilities
+import { getUnlimitedStats, getUserStats } from "@/lib/actions/stats"; // Fetch updated stats
 import type { UserStats } from "@/lib/actions/stats"; // Stats type
-import { getUnsignedUserStats, getTodaysGameRecord } from "@/lib/cookieStats"; // Unsigned user stats
-import { ChartLine, Clock, Infinity, HelpCircle, History } from "lucide-react"; // Icons
+import { getUnsignedUnlimitedStats, getUnsignedUserStats } from "@/lib/cookieStats"; // Unsigned user stats
+import type { UnlimitedStats } from "@/lib/unlimitedStats"; // Unlimited stats type
+import { DEFAULT_TRACK } from "@/lib/tracks"; // Daily tracks
+import { unlimitedFiltersQuery } from "@/lib/unlimitedFilters"; // Filters in unlimited URLs
+import { ChartLine, Clock, Infinity, HelpCircle, History, Link2, Zap } from "lucide-react"; // Icons
 
 /* ------------------------------- Prop Types -------------------------------- */
 
 type Props = {
-  pokemon: Pokedex.Pokemon | null; // Correct Pokémon (server-provided)
-  generation: string | null; // Generation string (server-provided)
-  maxAttempts?: number; // Guess limit
-  game?: Awaited<ReturnType<typeof getUserGame>>; // Existing user game for today
+  view: PuzzleView; // Redacted puzzle state (server-provided)
+  isSignedIn: boolean; // Whether the player is logged in
   nextGuessAt: string; // Cooldown timestamp (daily mode)
+  clockOffsetMs?: number; // Simulated time minus real time (cooldown)
+  today: string; // Player's date in their timezone (daily records + streaks)
   stats?: UserStats | null; // User stats (optional)
+  unlimitedStats?: UnlimitedStats | null; // Unlimited stats of a logged-in player (optional)
   isAdmin: boolean; // Admin flag for debug controls
   isUnlimited?: boolean; // Unlimited mode flag
 };
@@ -50,85 +64,104 @@ type Props = {
 /* ------------------------------ Component ---------------------------------- */
 
 export default function GameClient({
-  pokemon,
-  generation,
-  maxAttempts = 6,
-  game,
+  view: initialView,
+  isSignedIn,
   nextGuessAt,
+  clockOffsetMs = 0,
+  today,
   stats,
+  unlimitedStats,
   isAdmin,
   isUnlimited = false,
 }: Props) {
   /* -------------------------------- State --------------------------------- */
 
-  // Determine if user is signed in (if game or stats exist, user is signed in)
-  const isSignedIn = !!game || stats !== null;
+  // Current redacted view (replaced by the server after every guess)
+  const [view, setView] = useState<PuzzleView>(initialView);
 
   // Import transfer logic
   // Only import on client
   const [hasTransferredStats, setHasTransferredStats] = useState(false);
   
-  // Attempts already used (load from server game if exists)
-  const [attemptsUsed, setAttemptsUsed] = useState(game?.guesses.length || 0);
-
-  // Whether the user has already won
-  const [won, setWon] = useState(game?.won || false);
-  // Previous guesses (sorted by attempt_number)
-  const [previousGuesses, setPreviousGuesses] = useState<string[]>(
-    game?.guesses
-      .slice()
-      .sort((a, b) => a.attempt_number - b.attempt_number)
-      .map((guess) => guess.guess_name) || [],
-  );
+  // Guess limit for this puzzle
+  const maxAttempts = view.maxAttempts;
+
+  // Only today's live puzzle feeds the daily stats (archive replays don't)
+  const isDaily = view.puzzle.kind === "daily";
+
+  // Daily track whose stats are shown (unlimited shows the default track)
+  const track =
+    view.puzzle.kind === "daily" || view.puzzle.kind === "archive"
+      ? view.puzzle.track
+      : DEFAULT_TRACK;
+
+  // Attempts already used, win state and previous guesses all come from the view
+  const attemptsUsed = view.guesses.length;
+  const won = view.won;
+  const previousGuesses = view.guesses;
+  // Most revealed image stage unlocked so far (later stages come later)
+  const image =
+    view.hints.findLast((hint) => hint.kind === "image" && hint.unlocked)
+      ?.value ?? null;
 
   // Dialog open/close state
   const [open, setOpen] = useState(false);
 
+  // Message for the last rejected guess (e.g. duplicate guess)
+  const [guessError, setGuessError] = useState<string | null>(null);
+
+  // Whether the challenge link was just copied (unlimited)
+  const [challengeCopied, setChallengeCopied] = useState(false);
+
+  const router = useRouter();
+
   // Current stats (controlled state for both signed-in and unsigned users)
   const [currentStats, setCurrentStats] = useState<UserStats | null>(stats || null);
 
   // Stats for unsigned users (loaded from localStorage)
   const [unsignedStats, setUnsignedStats] = useState<ReturnType<typeof getUnsignedUserStats> | null>(null);
 
+  // Unlimited stats (server-provided when signed in, localStorage otherwise)
+  const [currentUnlimitedStats, setCurrentUnlimitedStats] = useState<UnlimitedStats | null>(unlimitedStats || null);
+
   // Track if user already played today (for unsigned users)
   const [alreadyPlayedToday, setAlreadyPlayedToday] = useState(false);
 
   /* ----------------------- Initialize Unsigned User Game -------------------- */
 
   useEffect(() => {
-    // Initialize game record and load stats for unsigned users
-    if (!isSignedIn && pokemon) {
-      initializeGame(isSignedIn, pokemon.name);
-      const stats = getUnsignedUserStats();
+    // Initialize game record and load stats for unsigned users (daily only)
+    if (!isSignedIn && isDaily) {
+      initializeGame(isSignedIn, today, track);
+      const stats = getUnsignedUserStats(today, track);
       setUnsignedStats(stats);
       setCurrentStats(stats as unknown as UserStats);
 
-      // Check if the user already played today
-      if (isTodaysGameFinished(isSignedIn)) {
+      // Check if the user already played today (progress itself is restored
+      // by the server, this only blocks replaying after clearing cookies)
+      if (isTodaysGameFinished(isSignedIn, today, track)) {
         setAlreadyPlayedToday(true);
-        
-        // Load the previous game's state
-        const todaysGame = getTodaysGameRecord();
-        if (todaysGame) {
-          setAttemptsUsed(todaysGame.guesses);
-          setWon(todaysGame.won);
-          // Fill in previous guesses (we don't have them stored, so we'll show empty)
-          // This is acceptable since we show the result anyway
-        }
       }
     }
-  }, [isSignedIn, pokemon]);
+  }, [isSignedIn, isDaily, today, track]);
 
   /* ----------------------- Update Unsigned User Stats ----------------------- */
 
   useEffect(() => {
     // Update unsigned user stats when the game state changes
     if (!isSignedIn) {
-      const stats = getUnsignedUserStats();
+      const stats = getUnsignedUserStats(today, track);
       setUnsignedStats(stats);
       setCurrentStats(stats as unknown as UserStats);
     }
-  }, [won, attemptsUsed, isSignedIn]);
+  }, [won, attemptsUsed, isSignedIn, today, track]);
+
+  useEffect(() => {
+    // Load unsigned user unlimited stats (unlimited only)
+    if (!isSignedIn && isUnlimited) {
+      setCurrentUnlimitedStats(getUnsignedUnlimitedStats());
+    }
+  }, [isSignedIn, isUnlimited]);
 
   /* ------------------- Transfer Local Stats After Sign In ------------------- */
 
@@ -157,7 +190,7 @@ export default function GameClient({
               console.log(`[Transfer] Transfer complete - inserted ${result.inserted} games to server account`);
               
               // Refresh stats from server after transfer
-              const updatedStats = await getUserStats();
+              const updatedStats = await getUserStats(track);
               console.log(`[Transfer] Updated stats from server:`, updatedStats);
               setCurrentStats(updatedStats);
               
@@ -186,101 +219,115 @@ export default function GameClient({
     }
     
     maybeTransferStats();
-  }, [isSignedIn, hasTransferredStats]);
+  }, [isSignedIn, hasTransferredStats, track]);
 
   /* ---------------------------- Derived Values ----------------------------- */
 
   // Game is over if out of attempts and not won
-  const gameOver = attemptsUsed >= maxAttempts && !won;
+  const gameOver = view.isFinished && !won;
 
-  // Show image when near the end or if won
-  const showImage = attemptsUsed >= maxAttempts - 1 || won;
+  // Answer name (only present once the server reveals it)
+  const answerName = view.answer;
 
   /* ------------------------------ Handlers --------------------------------- */
 
   // Submit a guess from SearchPokemon
   async function handleGuess(guessName: string) {
     // Prevent replaying if unsigned user already played today
-    if (!isSignedIn && alreadyPlayedToday) return;
-    
-    if (gameOver || won) return;
+    if (!isSignedIn && isDaily && alreadyPlayedToday) return;
 
-    const isCorrect = guessName.toLowerCase() === pokemon?.name.toLowerCase();
+    if (view.isFinished) return;
 
-    setPreviousGuesses((prev) => [...prev, guessName]);
+    // The server evaluates (and stores) the guess and returns the new view
+    const result = await submitGuess(guessName, isSignedIn, today, view.puzzle);
 
-    // If correct = set won FIRST
-    if (isCorrect) {
-      setWon(true);
+    if (!result.ok) {
+      setGuessError(result.error.message);
+      return;
     }
 
-    const nextAttempts = attemptsUsed + 1;
-    setAttemptsUsed(nextAttempts);
+    const nextView = result.view;
+    setGuessError(null);
+    setView(nextView);
+
+    if (!nextView.isFinished) return;
+
+    // Game decided: show the result dialog
+    setTimeout(() => {
+      setOpen(true);
+    }, 500);
+
+    // Daily mode: record the result + refresh stats
+    if (isDaily) {
+      await submitEndGame(nextView.won, isSignedIn, nextView.answer || "", today, track);
+      // Update stats immediately after saving
+      if (!isSignedIn) {
+        const stats = getUnsignedUserStats(today, track);
+        setUnsignedStats(stats);
+        setCurrentStats(stats as unknown as UserStats);
+      } else {
+        // Refetch stats for signed-in users
+        const updatedStats = await getUserStats(track);
+        setCurrentStats(updatedStats);
+      }
+    }
 
-    // Only save to database if not in unlimited mode
-    if (!isUnlimited) {
-      await submitGuess(guessName, isSignedIn);
+    // Unlimited mode: record the result + refresh unlimited stats
+    if (isUnlimited) {
+      submitUnlimitedEnd(nextView, isSignedIn);
+      setCurrentUnlimitedStats(
+        isSignedIn ? await getUnlimitedStats() : getUnsignedUnlimitedStats(),
+      );
     }
+  }
 
-    if (isCorrect) {
-      // User guessed correctly
-      setTimeout(() => {
-        setOpen(true);
-      }, 500);
+  // Unlimited: pool filters of this puzzle as URL params ("" if none)
+  const filtersQuery =
+    view.puzzle.kind === "unlimited"
+      ? unlimitedFiltersQuery(view.puzzle.filters)
+      : "";
 
-      // Save guess only in daily mode
-      if (!isUnlimited) {
-        await submitEndGame(true, isSignedIn, pokemon?.name || "");
-        // Update stats immediately after saving
-        if (!isSignedIn) {
-          const stats = getUnsignedUserStats();
-          setUnsignedStats(stats);
-          setCurrentStats(stats as unknown as UserStats);
-        } else {
-          // Refetch stats for signed-in users
-          const updatedStats = await getUserStats();
-          setCurrentStats(updatedStats);
-        }
-      }
+  // Unlimited: next puzzle with the same filters (the page picks a fresh seed)
+  function handlePlayAgain() {
+    setOpen(false);
+    router.push(filtersQuery ? `/unlimited?${filtersQuery}` : "/unlimited");
+  }
 
-      return;
+  // Unlimited: copy a link that plays this exact puzzle (seed + filters)
+  async function handleChallenge() {
+    if (view.puzzle.kind !== "unlimited") return;
+
+    const params = new URLSearchParams(filtersQuery);
+    params.set("seed", view.puzzle.id);
+    const url = `${window.location.origin}/unlimited?${params}`;
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setChallengeCopied(true);
+      setTimeout(() => setChallengeCopied(false), 2000);
+    } catch {
+      // Clipboard blocked (e.g. insecure context): fall back to a prompt
+      window.prompt("Copy this link and send it to a friend:", url);
     }
+  }
 
-    if (nextAttempts >= maxAttempts) {
-      // Game over, reveal correct answer
-      setTimeout(() => {
-        setOpen(true);
-      }, 500);
-
-      // Only save to database if not in unlimited mode
-      if (!isUnlimited) {
-        await submitEndGame(false, isSignedIn, pokemon?.name || "");
-        // Update stats immediately after saving
-        if (!isSignedIn) {
-          const stats = getUnsignedUserStats();
-          setUnsignedStats(stats);
-          setCurrentStats(stats as unknown as UserStats);
-        } else {
-          // Refetch stats for signed-in users
-          const updatedStats = await getUserStats();
-          setCurrentStats(updatedStats);
-        }
-      }
-    }
+  // Admin-only shortcuts: preview a finished game (nothing is saved)
+  async function handleAdminPreview(outcome: "won" | "lost") {
+    if (view.isFinished) return;
+    const preview = await previewPuzzleResult(view.puzzle, outcome);
+    if (!preview) return;
+    setView(preview);
+    setTimeout(() => setOpen(true), 200);
   }
 
   // Admin-only win shortcut
   function handleAutoWin() {
-    if (gameOver || won) return;
-    setWon(true);
-    setTimeout(() => setOpen(true), 200);
+    handleAdminPreview("won");
   }
 
   // Admin-only lose shortcut
   function handleAutoLose() {
-    if (gameOver || won) return;
-    setAttemptsUsed(maxAttempts);
-    setTimeout(() => setOpen(true), 200);
+    handleAdminPreview("lost");
   }
 
   /* -------------------------------- Render -------------------------------- */
@@ -318,8 +365,8 @@ export default function GameClient({
                   <span>
                     The answer was{" "}
                     <span className="font-bold text-yellow-300">
-                      {pokemon?.name?.charAt(0).toUpperCase()}
-                      {pokemon?.name?.slice(1)}
+                      {answerName?.charAt(0).toUpperCase()}
+                      {answerName?.slice(1)}
                     </span>
                   </span>
                 </>
@@ -331,19 +378,68 @@ export default function GameClient({
                   <span>
                     The correct answer was{" "}
                     <span className="font-bold text-yellow-300">
-                      {pokemon?.name?.charAt(0).toUpperCase()}
-                      {pokemon?.name?.slice(1)}
+                      {answerName?.charAt(0).toUpperCase()}
+                      {answerName?.slice(1)}
                     </span>
                   </span>
                 </>
               )}
             </Dialog.Title>
 
+            {/* Unlimited stats summary (unlimited only) */}
+            {isUnlimited && currentUnlimitedStats && (
+              <div className="w-full flex flex-col gap-2 text-sm bg-white/5 rounded-xl p-4 border border-white/10">
+                <div className="text-white font-bold">Unlimited</div>
+
+                <div className="flex items-center justify-between text-[#9aa6c3]">
+                  <span>Games</span>
+                  <span className="text-white font-semibold">
+                    {currentUnlimitedStats.totalGames}
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between text-[#9aa6c3]">
+                  <span>Win Rate</span>
+                  <span className="text-white font-semibold">
+                    {currentUnlimitedStats.totalGames > 0
+                      ? ((currentUnlimitedStats.totalWins / currentUnlimitedStats.totalGames) * 100).toFixed(1)
+                      : "0.0"}
+                    %
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between text-[#9aa6c3]">
+                  <span>Avg. Attempts</span>
+                  <span className="text-white font-semibold">
+                    {currentUnlimitedStats.averageAttempts?.toFixed(1) ?? "-"}
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between text-[#9aa6c3]">
+                  <span>Win Streak</span>
+                  <span className="text-white font-semibold">
+                    {currentUnlimitedStats.currentStreak}
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between text-[#9aa6c3]">
+                  <span>Best</span>
+                  <span className="text-white font-semibold">
+                    {currentUnlimitedStats.bestStreak}
+                  </span>
+                </div>
+              </div>
+            )}
+
             {/* Stats summary inside dialog (optional) */}
             {(() => {
               const statsToDisplay = currentStats || unsignedStats;
               return statsToDisplay ? (
                 <div className="w-full flex flex-col gap-2 text-sm bg-white/5 rounded-xl p-4 border border-white/10">
+                  {/* Daily stats are shown too, but kept apart */}
+                  {isUnlimited && (
+                    <div className="text-white font-bold">Daily</div>
+                  )}
                   <div className="flex items-center justify-between text-[#9aa6c3]">
                     <span>Wins</span>
                     <span className="text-white font-semibold">
@@ -400,12 +496,24 @@ export default function GameClient({
                 <button
                   type="button"
                   className="mt-2 px-6 py-2 rounded-xl bg-linear-to-r cursor-pointer from-green-500 to-emerald-500 text-white font-bold shadow hover:scale-105 transition-transform"
-                  onClick={() => window.location.reload()}
+                  onClick={handlePlayAgain}
                 >
                   Play Again
                 </button>
               )}
             </div>
+
+            {/* Unlimited-only: send this exact puzzle to a friend */}
+            {isUnlimited && (gameOver || won) && (
+              <button
+                type="button"
+                className="px-4 py-2 rounded-xl text-[#9aa6c3] hover:text-white hover:bg-white/10 transition-colors cursor-pointer text-sm font-bold flex items-center gap-2"
+                onClick={handleChallenge}
+              >
+                <Link2 size={16} />
+                {challengeCopied ? "Link copied!" : "Challenge a Friend"}
+              </button>
+            )}
           </Dialog.Content>
         </Dialog.Portal>
       </Dialog.Root>
@@ -446,16 +554,14 @@ export default function GameClient({
             {/* ------------------------------ Image ---------------------------- */}
             <div className="order-1 lg:order-2 flex flex-col items-center justify-center gap-3">
               <div className="w-full max-w-[420px] lg:w-[384px] aspect-square rounded-2xl border border-white/10 bg-linear-to-b from-[rgba(17,28,51,0.92)] to-[rgba(15,23,42,0.92)] grid place-items-center overflow-hidden">
-                {showImage &&
-                pokemon?.sprites?.other?.["official-artwork"]?.front_default ? (
+                {image ? (
                   <Image
-                    src={
-                      pokemon.sprites.other["official-artwork"].front_default
-                    }
-                    alt={pokemon.name}
+                    src={image}
+                    alt={answerName ?? "Pokémon"}
                     width={360}
                     height={360}
                     className="w-[85%] h-[85%] object-contain"
+                    unoptimized // Already rendered by /api/puzzle-image
                     priority
                   />
                 ) : (
@@ -466,11 +572,11 @@ export default function GameClient({
               </div>
 
               {/* Pokémon name shown after win/lose */}
-              {(won || gameOver) && pokemon?.name && (
+              {(won || gameOver) && answerName && (
                 <div className="rounded-full py-2 px-4 bg-black/22 border border-white/12 text-white">
                   <div className="text-2xl sm:text-3xl font-extrabold text-yellow-300 tracking-wide drop-shadow-lg text-center">
-                    {pokemon.name.charAt(0).toUpperCase() +
-                      pokemon.name.slice(1)}
+                    {answerName.charAt(0).toUpperCase() +
+                      answerName.slice(1)}
                   </div>
                 </div>
               )}
@@ -480,7 +586,7 @@ export default function GameClient({
                 <button
                   type="button"
                   className="px-6 py-2 rounded-xl bg-linear-to-r cursor-pointer from-green-500 to-emerald-500 text-white font-bold shadow hover:scale-105 transition-transform"
-                  onClick={() => window.location.reload()}
+                  onClick={handlePlayAgain}
                 >
                   Play Again
                 </button>
@@ -504,14 +610,14 @@ export default function GameClient({
 
                   {/* Toggle between daily and unlimited pages */}
                   <Link
-                    href={isUnlimited ? "/" : "/unlimited"}
+                    href={isDaily ? "/unlimited" : "/"}
                     className="w-full"
                   >
                     <button
                       type="button"
                       className="w-full min-h-[44px] px-3 py-2 rounded-xl text-white font-bold hover:bg-white/10 transition-colors cursor-pointer text-sm flex items-center justify-center gap-2"
                     >
-                      {isUnlimited ? (
+                      {!isDaily ? (
                         <>
                           <Clock size={18} />
                           Daily Puzzle
@@ -525,8 +631,16 @@ export default function GameClient({
                     </button>
                   </Link>
 
+                  {/* Blitz button */}
+                  <Link href="/blitz">
+                    <button className="w-full px-3 py-2 rounded-xl text-white font-bold hover:bg-white/20 transition-colors cursor-pointer text-sm flex items-center justify-center gap-2">
+                      <Zap size={20} />
+                        Blitz
+                    </button>
+                  </Link>
+
                   {/* History button */}
-                  <Link href="/history">
+                  <Link href={`/history?track=${track}`}>
                     <button className="w-full px-3 py-2 rounded-xl text-white font-bold hover:bg-white/20 transition-colors cursor-pointer text-sm flex items-center justify-center gap-2">
                       <History size={20} />
                         History
@@ -551,13 +665,20 @@ export default function GameClient({
           <div className="w-full flex justify-center">
             <div className="w-full max-w-[760px]">
               <Hints
-                pokemon={pokemon}
-                generation={generation}
-                revealedHints={won ? maxAttempts : attemptsUsed}
+                hints={view.hints}
               />
             </div>
           </div>
 
+          {/* ------------------------------------------------------------------ */}
+          {/*                              FEEDBACK                               */}
+          {/* ------------------------------------------------------------------ */}
+          <div className="w-full flex justify-center">
+            <div className="w-full max-w-[760px]">
+              <GuessFeedback feedback={view.feedback} />
+            </div>
+          </div>
+
           {/* ------------------------------------------------------------------ */}
           {/*                           ADMIN DEBUG BUTTONS                        */}
           {/* ------------------------------------------------------------------ */}
@@ -591,8 +712,10 @@ export default function GameClient({
                 attemptsUsed={attemptsUsed}
                 disabled={gameOver || won || (alreadyPlayedToday && !isSignedIn)}
                 nextGuessAt={nextGuessAt}
+                clockOffsetMs={clockOffsetMs}
                 onGuess={handleGuess}
                 won={won}
+                error={guessError}
               />
             </div>
           </div>
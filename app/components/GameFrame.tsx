@@ -3,14 +3,20 @@
 // -----------------------------------------------------------------------------
 // App-wide layout frame for the game pages.
 // - Glass container shell
-// - Header (brand, optional centered button, auth)
+// - Clock banner (simulated time for QA, admin controls)
+// - Header (brand, optional centered button, auth, timezone)
 // - Page content (children)
 // -----------------------------------------------------------------------------
 
 import type { ReactNode } from "react";
 import Link from "next/link";
 import LogOut from "../(auth)/components/LogOut";
+import TimeZonePicker from "./TimeZonePicker";
+import ClockBanner from "./ClockBanner";
 import { createClient } from "@/lib/supabase/server";
+import { readTimeZoneSetting } from "@/lib/playerTimeZone";
+import { readClock } from "@/lib/clock";
+import { effectiveTimeZone } from "@/lib/timezone";
 
 // Props accepted by the frame
 type AppFrameProps = {
@@ -30,6 +36,26 @@ export default async function GameFrame({
     data: { user },
   } = await supabase.auth.getUser();
 
+  // Admins can move the (simulated) clock
+  let isAdmin = false;
+
+  if (user) {
+    const { data } = await supabase
+      .from("profiles")
+      .select("admin")
+      .eq("id", user.id)
+      .single();
+
+    isAdmin = data?.admin || false;
+  }
+
+  // Current (possibly simulated) time
+  const clock = await readClock();
+  const now = Date.now() + clock.offsetMs;
+
+  // Player's timezone (decides which daily puzzle is "today")
+  const timeZone = await readTimeZoneSetting();
+
   return (
     // Full viewport height (dvh handles mobile browser bars better than vh)
     // relative -> allows OUTSIDE-the-panel background visuals to position correctly
@@ -38,6 +64,9 @@ export default async function GameFrame({
       {/* Main glass container                                                  */}
       {/* -------------------------------------------------------------------- */}
       <div className="relative z-10 w-full max-w-275 rounded-[18px] overflow-hidden bg-linear-to-b from-white/6 to-white/3 border border-white/10 shadow-[0_22px_55px_rgba(0,0,0,0.45)] backdrop-blur-[10px]">
+        {/* Simulated clock (QA): banner + admin controls */}
+        <ClockBanner clock={clock} isAdmin={isAdmin} />
+
         {/* ------------------------------------------------------------------ */}
         {/* Header                                                             */}
         {/* ------------------------------------------------------------------ */}
@@ -80,6 +109,12 @@ export default async function GameFrame({
                     </button>
                   </Link>
                 )}
+
+                <TimeZonePicker
+                  timeZone={timeZone.timeZone}
+                  activeTimeZone={effectiveTimeZone(timeZone, now)}
+                  isSet={timeZone.changedAt !== null}
+                />
               </div>
             </div>
           </div>
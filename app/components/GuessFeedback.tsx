@@ -0,0 +1,132 @@
+// -----------------------------------------------------------------------------
+// GuessFeedback.tsx
+// -----------------------------------------------------------------------------
+// This component renders one row of comparison tiles per guess, showing how
+// the guessed Pokémon's attributes relate to the answer.
+//
+// Inputs:
+// - feedback: rows computed on the server (see PuzzleView.feedback).
+//   A null row means the guess could not be compared (not in the catalog).
+//
+// Output:
+// - A horizontally scrollable grid: green = match, amber = right type in the
+//   wrong slot, grey = miss. Arrows point towards the answer's value.
+// -----------------------------------------------------------------------------
+
+import { ArrowDown, ArrowUp } from "lucide-react"; // Direction arrows
+import type { FeedbackTile, GuessFeedback } from "@/lib/feedback"; // Server-computed rows
+import { FadeSlideIn } from "./Animated";
+
+type Props = {
+  feedback: (GuessFeedback | null)[]; // One entry per guess, in attempt order
+};
+
+// Column headers (same order as the tiles)
+const COLUMNS = [
+  "Pokémon",
+  "Type 1",
+  "Type 2",
+  "Gen",
+  "Stage",
+  "Height",
+  "Weight",
+  "Colour",
+];
+
+// Utility: Capitalizes the first character in a string (e.g. "fire" -> "Fire")
+function capitalize(value: string): string {
+  if (!value) return value;
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// Tile background per status
+const STATUS_CLASSES: Record<FeedbackTile<unknown>["status"], string> = {
+  match: "bg-[rgba(34,197,94,0.85)] border-green-300/40",
+  partial: "bg-[rgba(234,179,8,0.85)] border-yellow-200/40",
+  miss: "bg-white/10 border-white/12",
+};
+
+// A single tile (label is the formatted guessed value)
+function Tile({
+  tile,
+  label,
+}: {
+  tile: FeedbackTile<unknown>;
+  label: string;
+}) {
+  return (
+    <div
+      className={`min-h-[52px] rounded-xl border px-1.5 py-1 flex flex-col items-center justify-center text-center text-xs font-semibold text-white ${STATUS_CLASSES[tile.status]}`}
+    >
+      <span>{label}</span>
+      {tile.direction === "higher" && (
+        <ArrowUp size={14} aria-label="Answer is higher" />
+      )}
+      {tile.direction === "lower" && (
+        <ArrowDown size={14} aria-label="Answer is lower" />
+      )}
+    </div>
+  );
+}
+
+// Main component
+export default function GuessFeedback({ feedback }: Props) {
+  if (feedback.length === 0) return null;
+
+  // Newest guess on top (keep the attempt index for stable keys)
+  const rows = feedback.map((row, attempt) => ({ row, attempt })).reverse();
+
+  /* ------------------------------------------------------------------------ */
+  /*                                 Render                                   */
+  /* ------------------------------------------------------------------------ */
+  return (
+    <div className="w-full overflow-x-auto">
+      <div className="min-w-[600px] flex flex-col gap-1.5">
+        {/* Header row */}
+        <div className="grid grid-cols-8 gap-1.5">
+          {COLUMNS.map((column) => (
+            <div
+              key={column}
+              className="text-[#9aa6c3] text-xs font-medium text-center"
+            >
+              {column}
+            </div>
+          ))}
+        </div>
+
+        {/* One row per guess */}
+        {rows.map(({ row, attempt }) =>
+          row ? (
+            <FadeSlideIn key={`${attempt}-${row.name}`}>
+              <div className="grid grid-cols-8 gap-1.5">
+                <div className="min-h-[52px] rounded-xl border border-white/12 bg-black/22 px-1.5 py-1 grid place-items-center text-center text-xs font-bold text-white">
+                  {row.displayName}
+                </div>
+                <Tile
+                  tile={row.primaryType}
+                  label={capitalize(row.primaryType.value)}
+                />
+                <Tile
+                  tile={row.secondaryType}
+                  label={
+                    row.secondaryType.value
+                      ? capitalize(row.secondaryType.value)
+                      : "None"
+                  }
+                />
+                <Tile tile={row.generation} label={`${row.generation.value}`} />
+                <Tile
+                  tile={row.evolutionStage}
+                  label={`${row.evolutionStage.value}`}
+                />
+                <Tile tile={row.height} label={`${row.height.value} m`} />
+                <Tile tile={row.weight} label={`${row.weight.value} kg`} />
+                <Tile tile={row.color} label={capitalize(row.color.value)} />
+              </div>
+            </FadeSlideIn>
+          ) : null,
+        )}
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@
   - Guess button
   - Cooldown overlay
   - Attempts indicator
+  - Error message for rejected guesses
   - Small animated Pokéball icon inside the search bar
 */
 
@@ -20,8 +21,8 @@ import { SlideDown } from "./Animated"; // Smooth dropdown open/close animation
 /* ---------------------------- Data Type Shapes ---------------------------- */
 
 interface Pokemon {
-  name: string;
-  url: string;
+  name: string; // Slug submitted as the guess
+  displayName: string; // Shown to the player
 }
 
 interface Props {
@@ -29,8 +30,10 @@ interface Props {
   attemptsUsed: number;
   onGuess: (guessName: string) => Promise<void>;
   disabled?: boolean;
-  nextGuessAt?: string;
+  nextGuessAt?: string; // On the server's (possibly simulated) clock
+  clockOffsetMs?: number; // Simulated time minus real time
   won?: boolean;
+  error?: string | null;
 }
 
 /* ------------------------------ Component --------------------------------- */
@@ -41,7 +44,9 @@ export default function SearchPokemon({
   onGuess,
   disabled = false,
   nextGuessAt,
+  clockOffsetMs = 0,
   won = false,
+  error = null,
 }: Props) {
   /* -------------------------------- State -------------------------------- */
 
@@ -113,7 +118,7 @@ export default function SearchPokemon({
 
     // Build HH:MM:SS countdown string
     const updateCooldown = () => {
-      const remainingMs = Math.max(0, target - Date.now());
+      const remainingMs = Math.max(0, target - (Date.now() + clockOffsetMs));
       const totalSeconds = Math.ceil(remainingMs / 1000);
 
       const hours = Math.floor(totalSeconds / 3600);
@@ -135,7 +140,7 @@ export default function SearchPokemon({
 
     // Cleanup
     return () => clearInterval(interval);
-  }, [disabled, nextGuessAt]);
+  }, [disabled, nextGuessAt, clockOffsetMs]);
 
   /* ---------------------------- Guess Handler ----------------------------- */
 
@@ -283,7 +288,7 @@ export default function SearchPokemon({
               key={pokemon.name}
               onClick={() => {
                 setSelectedPokemon(pokemon); // Set selection
-                setSearchInput(pokemon.name); // Fill input
+                setSearchInput(pokemon.displayName); // Fill input
                 setShowDropdown(false); // Close dropdown
                 setIsTyping(false); // Stop search effect
                 inputRef.current?.blur(); // Close keyboard on mobile
@@ -292,13 +297,18 @@ export default function SearchPokemon({
             >
               <span className="w-2.5 h-2.5 rounded-full bg-[rgba(229,72,77,0.9)] shadow-[0_0_0_2px_rgba(255,255,255,0.12)_inset]" />
               <span className="text-[#e8eefc]">
-                {pokemon.name.charAt(0).toUpperCase() + pokemon.name.slice(1)}
+                {pokemon.displayName}
               </span>
             </div>
           ))}
         </div>
       </SlideDown>
 
+      {/* Rejected guess message (from the server) */}
+      {error && (
+        <div className="mt-2.5 text-xs font-semibold text-rose-300">{error}</div>
+      )}
+
       {/* Attempts row */}
       <div className="mt-4 flex items-center justify-between">
         <div className="flex gap-3">
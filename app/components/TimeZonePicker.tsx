@@ -0,0 +1,97 @@
+"use client";
+
+// -----------------------------------------------------------------------------
+// TimeZonePicker.tsx
+// -----------------------------------------------------------------------------
+// Timezone setting in the header (which daily puzzle is "today").
+// - Players that never chose a zone get the browser's zone automatically
+// - Picking a zone saves it (profile when signed in, cookie otherwise) and
+//   reloads the page data for the new day
+// - While a change is pending (the old zone still decides "today" until
+//   both show the same date), a short note says so
+// -----------------------------------------------------------------------------
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation"; // Refresh after saving
+import { Globe } from "lucide-react"; // Icon
+import { saveTimeZone } from "@/lib/actions/timezone"; // Server Action
+import { DEFAULT_TIME_ZONE } from "@/lib/timezone"; // UTC
+
+type Props = {
+  timeZone: string; // Chosen zone
+  activeTimeZone: string; // Zone deciding "today" right now
+  isSet: boolean; // Whether a zone was ever chosen (false = auto-detect)
+};
+
+// Every zone the browser knows, UTC first
+function listTimeZones() {
+  const zones = Intl.supportedValuesOf("timeZone");
+  return [DEFAULT_TIME_ZONE, ...zones.filter((zone) => zone !== DEFAULT_TIME_ZONE)];
+}
+
+export default function TimeZonePicker({ timeZone, activeTimeZone, isSet }: Props) {
+  const router = useRouter();
+
+  // Filled after mount (the server's zone list may differ from the browser's)
+  const [zones, setZones] = useState<string[]>([timeZone]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function save(next: string) {
+    setSaving(true);
+    const result = await saveTimeZone(next);
+    setSaving(false);
+
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+
+    setError(null);
+    router.refresh(); // Today's puzzle, cooldown and stats of the new day
+  }
+
+  useEffect(() => {
+    setZones(listTimeZones());
+
+    // First visit: use the browser's zone
+    if (isSet) return;
+
+    const detected = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (!detected) return;
+
+    saveTimeZone(detected).then((result) => {
+      if (result.ok) router.refresh();
+    });
+  }, [isSet, router]);
+
+  return (
+    <div className="flex flex-col gap-0.5 sm:items-end">
+      <label className="flex items-center gap-1.5 text-[#9aa6c3] text-xs">
+        <Globe size={14} />
+        <select
+          value={timeZone}
+          disabled={saving}
+          onChange={(event) => save(event.target.value)}
+          aria-label="Timezone"
+          className="max-w-[180px] bg-black/20 border border-white/12 rounded-lg py-1 px-2 text-[#e8eefc] text-xs cursor-pointer"
+        >
+          {zones.map((zone) => (
+            <option key={zone} value={zone}>
+              {zone.replaceAll("_", " ")}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {activeTimeZone !== timeZone && (
+        <p className="text-[#9aa6c3] text-[11px]">
+          Today still follows {activeTimeZone.replaceAll("_", " ")} until both
+          zones reach the same date.
+        </p>
+      )}
+
+      {error && <p className="text-red-300 text-[11px]">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+// -----------------------------------------------------------------------------
+// TrackTabs.tsx
+// -----------------------------------------------------------------------------
+// Switcher between the daily puzzle tracks (Classic, Silhouette, ...).
+// - One link per track (on the game page: per track with a puzzle today)
+// - The current track is highlighted
+// - Tracks finished today show a check (solved) or a cross (missed)
+// - Also used by the history page (basePath="/history", no results)
+// -----------------------------------------------------------------------------
+
+import Link from "next/link";
+import { Check, X } from "lucide-react"; // Finished icons
+import type { TrackResult } from "@/lib/actions/guess"; // Today's progress per track
+import { DAILY_TRACKS, type DailyTrack } from "@/lib/tracks"; // Track labels
+
+type Props = {
+  current: DailyTrack; // Track being played
+  results?: TrackResult[]; // Today's progress (tracks without a puzzle are missing)
+  basePath?: string; // Page the links point to
+};
+
+export default function TrackTabs({ current, results, basePath = "/" }: Props) {
+  return (
+    <nav className="w-full flex flex-wrap justify-center gap-2">
+      {DAILY_TRACKS.map((track) => {
+        const result = results?.find((entry) => entry.track === track.id);
+
+        // No puzzle on this track today
+        if (results && !result) return null;
+
+        const isCurrent = track.id === current;
+
+        return (
+          <Link
+            key={track.id}
+            href={`${basePath}?track=${track.id}`}
+            title={track.description}
+            aria-current={isCurrent ? "page" : undefined}
+            className={`rounded-full py-1.5 px-3.5 border text-sm font-bold flex items-center gap-2 transition-colors ${
+              isCurrent
+                ? "bg-white/15 border-white/30 text-white"
+                : "bg-black/22 border-white/12 text-[#9aa6c3] hover:text-white hover:bg-black/30"
+            }`}
+          >
+            {track.label}
+
+            {/* Finished today: solved or missed */}
+            {result?.isFinished &&
+              (result.won ? (
+                <Check size={16} className="text-emerald-400" aria-label="Solved" />
+              ) : (
+                <X size={16} className="text-rose-400" aria-label="Missed" />
+              ))}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
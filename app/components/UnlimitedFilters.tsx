@@ -0,0 +1,264 @@
+"use client";
+
+/* -------------------------------------------------------------------------- */
+/*                              UnlimitedFilters                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Filter panel for the unlimited answer pool.
+
+  - Collapsed: a "Filters" button with a short summary of what is set
+  - Open: generation / type / evolution stage chips and a difficulty tier,
+    with a live count of matching Pokémon
+  - Apply: saves the filters as the player's preference and starts a new
+    puzzle with them (the filters become part of the shareable URL)
+*/
+
+import { useEffect, useState, type ReactNode } from "react";
+import { useRouter } from "next/navigation"; // Client-side navigation
+import { SlidersHorizontal } from "lucide-react"; // Icon
+import {
+  countUnlimitedPool,
+  saveUnlimitedFilters,
+} from "@/lib/actions/unlimited"; // Server Actions
+import {
+  DIFFICULTIES,
+  EVOLUTION_STAGES,
+  GENERATIONS,
+  NO_FILTERS,
+  POKEMON_TYPES,
+  hasFilters,
+  unlimitedFiltersQuery,
+  type Difficulty,
+  type UnlimitedFilters as Filters,
+} from "@/lib/unlimitedFilters"; // Filter choices
+
+type Props = {
+  filters: Filters; // Filters of the puzzle being played
+};
+
+// Utility: Capitalizes the first character in a string (e.g. "fire" -> "Fire")
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// Add or remove a value from a list
+function toggle<T>(list: T[], value: T) {
+  return list.includes(value)
+    ? list.filter((item) => item !== value)
+    : [...list, value];
+}
+
+// Short description of the active filters, e.g. "Gen 1, 2 · Fire · Easy"
+function summarize(filters: Filters) {
+  if (!hasFilters(filters)) return "All Pokémon";
+
+  return [
+    filters.generations.length > 0 && `Gen ${filters.generations.join(", ")}`,
+    filters.types.length > 0 && filters.types.map(capitalize).join(", "),
+    filters.stages.length > 0 && `Stage ${filters.stages.join(", ")}`,
+    filters.difficulty && capitalize(filters.difficulty),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+// One selectable chip
+function Chip({
+  selected,
+  onClick,
+  children,
+}: {
+  selected: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={selected}
+      className={`rounded-full py-1 px-3 border text-sm cursor-pointer transition-colors ${
+        selected
+          ? "bg-white/15 border-white/30 text-white"
+          : "bg-black/22 border-white/12 text-[#9aa6c3] hover:text-white"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+export default function UnlimitedFilters({ filters }: Props) {
+  const router = useRouter();
+
+  // Panel open/closed
+  const [open, setOpen] = useState(false);
+
+  // Filters being edited (applied only on "Apply")
+  const [draft, setDraft] = useState<Filters>(filters);
+
+  // Matching Pokémon for the draft (null while counting)
+  const [poolSize, setPoolSize] = useState<number | null>(null);
+
+  // Message from the last failed save
+  const [error, setError] = useState<string | null>(null);
+
+  // Live count of matching Pokémon while the panel is open
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setPoolSize(null);
+
+    countUnlimitedPool(draft).then((size) => {
+      if (!cancelled) setPoolSize(size);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [draft, open]);
+
+  // Save as preference, then start a new puzzle with these filters
+  async function handleApply() {
+    const result = await saveUnlimitedFilters(draft);
+
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+
+    setError(null);
+    setOpen(false);
+
+    const query = unlimitedFiltersQuery(draft);
+    router.push(query ? `/unlimited?${query}` : "/unlimited");
+  }
+
+  /* ------------------------------------------------------------------------ */
+  /*                                 Render                                   */
+  /* ------------------------------------------------------------------------ */
+  return (
+    <div className="w-full max-w-[760px] flex flex-col items-center gap-3">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="rounded-full py-1.5 px-3.5 bg-black/22 border border-white/12 text-white text-sm font-bold hover:bg-black/30 cursor-pointer flex items-center gap-2"
+      >
+        <SlidersHorizontal size={16} />
+        Filters: {summarize(filters)}
+      </button>
+
+      {open && (
+        <div className="w-full rounded-2xl border border-white/10 bg-black/20 p-4 flex flex-col gap-4 text-[#9aa6c3]">
+          {/* Generations */}
+          <div className="flex flex-col gap-2">
+            <span className="text-white font-medium">Generation</span>
+            <div className="flex flex-wrap gap-2">
+              {GENERATIONS.map((generation) => (
+                <Chip
+                  key={generation}
+                  selected={draft.generations.includes(generation)}
+                  onClick={() =>
+                    setDraft({
+                      ...draft,
+                      generations: toggle(draft.generations, generation),
+                    })
+                  }
+                >
+                  {generation}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          {/* Types */}
+          <div className="flex flex-col gap-2">
+            <span className="text-white font-medium">Type</span>
+            <div className="flex flex-wrap gap-2">
+              {POKEMON_TYPES.map((type) => (
+                <Chip
+                  key={type}
+                  selected={draft.types.includes(type)}
+                  onClick={() =>
+                    setDraft({ ...draft, types: toggle(draft.types, type) })
+                  }
+                >
+                  {capitalize(type)}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          {/* Evolution stage */}
+          <div className="flex flex-col gap-2">
+            <span className="text-white font-medium">Evolution stage</span>
+            <div className="flex flex-wrap gap-2">
+              {EVOLUTION_STAGES.map((stage) => (
+                <Chip
+                  key={stage}
+                  selected={draft.stages.includes(stage)}
+                  onClick={() =>
+                    setDraft({ ...draft, stages: toggle(draft.stages, stage) })
+                  }
+                >
+                  {stage}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          {/* Difficulty (one tier or any) */}
+          <div className="flex flex-col gap-2">
+            <span className="text-white font-medium">Difficulty</span>
+            <div className="flex flex-wrap gap-2">
+              <Chip
+                selected={draft.difficulty === null}
+                onClick={() => setDraft({ ...draft, difficulty: null })}
+              >
+                Any
+              </Chip>
+              {DIFFICULTIES.map((tier: Difficulty) => (
+                <Chip
+                  key={tier}
+                  selected={draft.difficulty === tier}
+                  onClick={() => setDraft({ ...draft, difficulty: tier })}
+                >
+                  {capitalize(tier)}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          {/* Matching count + actions */}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <span className="text-sm">
+              {poolSize === null ? "Counting…" : `${poolSize} Pokémon match`}
+            </span>
+
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setDraft(NO_FILTERS)}
+                className="px-4 py-2 rounded-xl text-white font-bold hover:bg-white/10 transition-colors cursor-pointer text-sm"
+              >
+                Clear
+              </button>
+              <button
+                type="button"
+                onClick={handleApply}
+                disabled={poolSize === 0}
+                className="px-4 py-2 rounded-xl bg-linear-to-r from-green-500 to-emerald-500 text-white font-bold shadow cursor-pointer text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Apply &amp; New Puzzle
+              </button>
+            </div>
+          </div>
+
+          {error && <div className="text-rose-400 text-sm">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
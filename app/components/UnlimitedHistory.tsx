@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { getStoredUnlimitedGames } from "@/lib/cookieStats";
+import {
+  calculateUnlimitedStats,
+  type UnlimitedGameRecord,
+} from "@/lib/unlimitedStats";
+
+const MAX_ATTEMPTS = 6;
+
+// Most recent games listed
+const RECENT_GAMES = 20;
+
+type GuessTileStatus = "correct" | "wrong" | "empty";
+
+type Props = {
+  games: UnlimitedGameRecord[] | null; // Signed in: from the database, null: read localStorage
+};
+
+function formatDate(value: string) {
+  const date = new Date(value);
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+// Replays the same puzzle (seed + filters)
+function playHref(game: UnlimitedGameRecord) {
+  const params = new URLSearchParams(game.filters);
+  params.set("seed", game.seed);
+  return `/unlimited?${params.toString()}`;
+}
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function getTileClasses(status: GuessTileStatus) {
+  if (status === "correct") {
+    return "bg-emerald-500/70 border-emerald-400/50";
+  }
+  if (status === "wrong") {
+    return "bg-red-500/70 border-red-400/50";
+  }
+  return "bg-white/5 border-white/10";
+}
+
+function buildTiles(game: UnlimitedGameRecord): GuessTileStatus[] {
+  const wrong = game.won ? game.attempts - 1 : game.attempts;
+  const tiles: GuessTileStatus[] = Array(wrong).fill("wrong");
+
+  if (game.won) {
+    tiles.push("correct");
+  }
+
+  while (tiles.length < MAX_ATTEMPTS) {
+    tiles.push("empty");
+  }
+
+  return tiles;
+}
+
+export function UnlimitedHistory({ games: signedInGames }: Props) {
+  const [games, setGames] = useState<UnlimitedGameRecord[] | null>(signedInGames);
+
+  useEffect(() => {
+    if (!signedInGames) {
+      setGames(getStoredUnlimitedGames());
+    }
+  }, [signedInGames]);
+
+  if (!games) {
+    return <div className="text-[#9aa6c3]">Loading...</div>;
+  }
+
+  const stats = calculateUnlimitedStats(games);
+  const recent = games.slice(-RECENT_GAMES).reverse();
+
+  return (
+    <div className="mt-4 w-full rounded-2xl border border-white/10 bg-black/20 shadow-[0_10px_26px_rgba(0,0,0,0.35)] p-5">
+      {/* Stats summary (kept apart from the daily stats) */}
+      <div className="flex flex-wrap gap-x-8 gap-y-2 text-[#9aa6c3]">
+        <div>
+          Games <span className="text-white font-semibold">{stats.totalGames}</span>
+        </div>
+        <div>
+          Win Rate{" "}
+          <span className="text-white font-semibold">
+            {stats.totalGames > 0
+              ? ((stats.totalWins / stats.totalGames) * 100).toFixed(1)
+              : "0.0"}
+            %
+          </span>
+        </div>
+        <div>
+          Avg. Attempts{" "}
+          <span className="text-white font-semibold">
+            {stats.averageAttempts?.toFixed(1) ?? "-"}
+          </span>
+        </div>
+        <div>
+          Win Streak <span className="text-white font-semibold">{stats.currentStreak}</span>
+        </div>
+        <div>
+          Best <span className="text-white font-semibold">{stats.bestStreak}</span>
+        </div>
+      </div>
+
+      {/* Recent games, newest first */}
+      {recent.length === 0 ? (
+        <div className="mt-4 text-[#9aa6c3]">No unlimited games yet.</div>
+      ) : (
+        <div className="mt-4 flex flex-col gap-4">
+          {recent.map((game) => (
+            <div
+              key={`${game.seed}?${game.filters}`}
+              className="flex flex-wrap items-center gap-x-6 gap-y-2"
+            >
+              {/* Left: Date (links to the same puzzle) */}
+              <Link
+                href={playHref(game)}
+                className="w-36 text-[#9aa6c3] hover:text-white underline-offset-4 hover:underline"
+              >
+                {formatDate(game.playedAt)}
+              </Link>
+
+              {/* Attempt tiles */}
+              <div className="flex flex-wrap gap-2">
+                {buildTiles(game).map((status, index) => (
+                  <div
+                    key={`${game.seed}-${index}`}
+                    className={`w-7 h-7 rounded-md border ${getTileClasses(
+                      status,
+                    )}`}
+                  />
+                ))}
+              </div>
+
+              {/* Answer */}
+              <span className="text-sm text-white">{capitalize(game.pokemonName)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { getStoredGames } from "@/lib/cookieStats";
+import Link from "next/link";
+import { getStoredGames, getRecordTrack } from "@/lib/cookieStats";
+import type { DailyTrack } from "@/lib/tracks";
 import type { GameRecord } from "@/lib/cookieStats";
 
 const MAX_ATTEMPTS = 6;
@@ -16,6 +18,8 @@ type DailyPokemonRow = {
 
 type Props = {
   days: DailyPokemonRow[];
+  todayIso: string;
+  track: DailyTrack;
 };
 
 function formatDate(value: string) {
@@ -27,6 +31,13 @@ function formatDate(value: string) {
   });
 }
 
+// Today is the live puzzle, past days are played from the archive
+function playHref(value: string, todayIso: string, track: DailyTrack) {
+  return value === todayIso
+    ? `/?track=${track}`
+    : `/archive/${value}?track=${track}`;
+}
+
 function getTileClasses(status: GuessTileStatus) {
   if (status === "correct") {
     return "bg-emerald-500/70 border-emerald-400/50";
@@ -68,7 +79,7 @@ function buildTilesForDay(gameRecord: GameRecord | undefined): GuessTileStatus[]
   return tiles;
 }
 
-export function UnsignedUserHistory({ days }: Props) {
+export function UnsignedUserHistory({ days, todayIso, track }: Props) {
   const [gamesByDate, setGamesByDate] = useState<Map<string, GameRecord>>(new Map());
   const [isLoading, setIsLoading] = useState(true);
 
@@ -78,13 +89,15 @@ export function UnsignedUserHistory({ days }: Props) {
     
     // Create a map of date -> game record for quick lookup
     const gamesMap = new Map<string, GameRecord>();
-    stored.forEach(game => {
-      gamesMap.set(game.date, game);
-    });
+    stored
+      .filter(game => getRecordTrack(game) === track)
+      .forEach(game => {
+        gamesMap.set(game.date, game);
+      });
     
     setGamesByDate(gamesMap);
     setIsLoading(false);
-  }, []);
+  }, [track]);
 
   if (isLoading) {
     return <div className="text-[#9aa6c3]">Loading...</div>;
@@ -107,10 +120,13 @@ export function UnsignedUserHistory({ days }: Props) {
 
               return (
                 <div key={day.id} className="flex items-center gap-6">
-                  {/* Left: Day label */}
-                  <div className="w-36 text-[#9aa6c3]">
+                  {/* Left: Day label (links to the puzzle) */}
+                  <Link
+                    href={playHref(day.available_on, todayIso, track)}
+                    className="w-36 text-[#9aa6c3] hover:text-white underline-offset-4 hover:underline"
+                  >
                     {formatDate(day.available_on)}
-                  </div>
+                  </Link>
 
                   {/* Right: Attempt tiles */}
                   <div className="flex flex-wrap gap-2">
@@ -47,8 +47,59 @@ export default function HelpPage() {
             <li>Type</li>
             <li>Secondary Type</li>
             <li>Evolution stage</li>
+            <li>The Pokémon's cry (use the speaker button to mute sounds)</li>
             <li>Generation</li>
-            <li>Image of the Pokémon, which is revealed after 5 incorrect guesses</li>
+            <li>A Pokédex entry with the Pokémon's name (and its evolutions' names) hidden</li>
+            <li>Image of the Pokémon, revealed step by step: a silhouette after 2 guesses, then pixelated, then blurred, and the full image after 5 incorrect guesses</li>
+          </ul>
+        </section>
+
+        {/* Daily tracks */}
+        <section className="flex flex-col gap-3">
+          <h2 className="text-2xl font-bold text-yellow-300">🗂️ Daily Tracks</h2>
+          <p className="text-[#9aa6c3]">
+            There are several daily puzzles, each with its own Pokémon and its own stats:
+          </p>
+          <ul className="list-disc list-inside text-[#9aa6c3] space-y-2">
+            <li>Classic: the hints above</li>
+            <li>Silhouette: only the silhouette, no other hints</li>
+            <li>Pokédex Entry: only the Pokédex entry, no other hints</li>
+          </ul>
+        </section>
+
+        {/* Unlimited */}
+        <section className="flex flex-col gap-3">
+          <h2 className="text-2xl font-bold text-yellow-300">♾️ Unlimited</h2>
+          <ul className="list-disc list-inside text-[#9aa6c3] space-y-2">
+            <li>Play as many puzzles as you like, outside the daily streak.</li>
+            <li>Use Filters to limit the answers by generation, type, evolution stage or difficulty.</li>
+            <li>Your filters are remembered, and a challenge link plays the same Pokémon with the same filters.</li>
+            <li>Unlimited games have their own stats (win rate, average attempts and a win streak) and show up in History; they never affect your daily streak.</li>
+          </ul>
+        </section>
+
+        {/* Blitz */}
+        <section className="flex flex-col gap-3">
+          <h2 className="text-2xl font-bold text-yellow-300">⚡ Blitz</h2>
+          <ul className="list-disc list-inside text-[#9aa6c3] space-y-2">
+            <li>Solve as many random Pokémon as you can in 3 minutes.</li>
+            <li>Each Pokémon gets 3 guesses. After that (or once you get it) the next one starts right away.</li>
+            <li>The clock runs on the server, so pausing or closing the page doesn't stop it.</li>
+            <li>Your best score is kept as your personal best.</li>
+          </ul>
+        </section>
+
+        {/* Feedback */}
+        <section className="flex flex-col gap-3">
+          <h2 className="text-2xl font-bold text-yellow-300">🟩 Feedback</h2>
+          <p className="text-[#9aa6c3]">
+            Every guess gets a row of tiles comparing it with the answer:
+          </p>
+          <ul className="list-disc list-inside text-[#9aa6c3] space-y-2">
+            <li>Green means the value matches the answer.</li>
+            <li>Yellow means the type is right but in the other slot.</li>
+            <li>Arrows show whether the answer's generation, evolution stage, height or weight is higher or lower.</li>
+            <li>Colour is the Pokémon's Pokédex colour.</li>
           </ul>
         </section>
 
@@ -61,6 +112,7 @@ export default function HelpPage() {
             <li>You get 6 attempts per day. If you use all attempts or win, you will see a pop up for either winning or losing.</li>
             <li>After closing the pop up (Either by clicking the X or clicking anywhere outside the pop up)</li> 
             <li>you must wait until midnight for the next Pokémon to become available.</li>
+            <li>Midnight is in your timezone (picked from your browser, change it in the header). A new timezone takes over once its date matches the old one, so changing it never skips or repeats a day.</li>
           </ul>
         </section>
 
@@ -2,6 +2,7 @@
 // app/history/page.tsx
 // -----------------------------------------------------------------------------
 // This page renders the user's daily guess history as rows of small squares:
+// - One daily track at a time (?track=, defaults to classic)
 // - Each row = a day (from daily_pokemon table)
 // - Each square = one attempt slot for that day (max attempts = 6)
 //
@@ -9,6 +10,14 @@
 // - daily_pokemon: provides the calendar of daily Pokémon puzzles
 // - games: provides the user's game record for each day
 //   - guesses: nested relation providing each attempt for that day
+//   - mode: "daily" rows fill the tiles, "archive" rows are replays and only
+//     show as a small result badge (they never change the daily record)
+//
+// Every past day links to /archive/<date> so it can be (re)played.
+//
+// Below the daily tiles, an Unlimited section shows the unlimited stats and
+// the most recent unlimited games (mode "unlimited" rows, or localStorage
+// when logged out); they never count towards the daily history.
 //
 // UI wrappers:
 // - GameFrame: the shared app layout (header + glass container)
@@ -18,7 +27,12 @@
 import Link from "next/link"; // Client-side navigation
 import GameFrame from "../components/GameFrame"; // Shared app shell layout
 import { UnsignedUserHistory } from "../components/UnsignedUserHistory"; // Unsigned user history component
+import TrackTabs from "../components/TrackTabs"; // Daily track switcher
+import { UnlimitedHistory } from "../components/UnlimitedHistory"; // Unlimited stats + recent games
 import { createClient } from "@/lib/supabase/server"; // Server-side Supabase client
+import { getUnlimitedGames } from "@/lib/actions/stats"; // Finished unlimited games
+import { parseTrack, type DailyTrack } from "@/lib/tracks"; // Daily tracks
+import { getPlayerToday } from "@/lib/playerTimeZone"; // Player's day
 
 // Max number of guesses/attempt slots shown per day.
 // IMPORTANT: This should match the game rules and database logic.
@@ -44,6 +58,7 @@ type GuessRow = {
 type GameRow = {
   id: string; // Primary key for a single user's game
   daily_pokemon_id: string; // Foreign key pointing to daily_pokemon.id
+  mode: "daily" | "archive"; // Live daily game or archive replay
   won: boolean | null; // Whether the user won (true/false) or not set yet (null)
   is_finished: boolean | null; // Whether the game was finished (true/false/null)
   guesses: GuessRow[]; // Nested guesses for the day
@@ -72,6 +87,19 @@ function formatDate(value: string) {
   });
 }
 
+// Where a history row leads: today is the live puzzle, past days the archive
+function playHref(value: string, todayIso: string, track: DailyTrack) {
+  return value === todayIso
+    ? `/?track=${track}`
+    : `/archive/${value}?track=${track}`;
+}
+
+// Short label for an archive replay of a day
+function archiveLabel(game: GameRow) {
+  if (!game.is_finished) return "Replay in progress";
+  return game.won ? "Replayed: solved" : "Replayed: missed";
+}
+
 /* ------------------------------ Style Helpers ------------------------------ */
 
 // Returns the Tailwind classes needed for a tile based on its status.
@@ -130,7 +158,14 @@ function buildTiles(
 
 /* ------------------------------- Page -------------------------------------- */
 
-export default async function HistoryPage() {
+type Props = {
+  searchParams: Promise<{ track?: string }>; // Selected daily track
+};
+
+export default async function HistoryPage({ searchParams }: Props) {
+  // Unknown tracks fall back to the classic one
+  const track = parseTrack((await searchParams).track);
+
   /* -------------------------- Auth / Supabase Setup ------------------------ */
 
   // Create server Supabase client (reads session from cookies)
@@ -143,14 +178,16 @@ export default async function HistoryPage() {
 
   /* -------------------------- Load Daily Calendar -------------------------- */
 
-  // Today's date in YYYY-MM-DD format (used to filter out future days)
-  const todayIso = new Date().toISOString().split("T")[0];
+  // The player's date in YYYY-MM-DD format, in their timezone (used to
+  // filter out future days)
+  const todayIso = await getPlayerToday();
 
   // Fetch all daily puzzles up to today, newest first
   const { data: days, error: daysError } = await supabase
     .from("daily_pokemon")
     .select("id, available_on, pokemon_name")
     .lte("available_on", todayIso) // Only days that are available up to today
+    .eq("track", track) // Only the selected track
     .order("available_on", { ascending: false }); // Newest first
 
   /* ------------------------------ Error State ------------------------------ */
@@ -202,7 +239,13 @@ export default async function HistoryPage() {
           </Link>
         </div>
 
-        <UnsignedUserHistory days={days || []} />
+        <TrackTabs current={track} basePath="/history" />
+
+        <UnsignedUserHistory days={days || []} todayIso={todayIso} track={track} />
+
+        {/* Unlimited games (localStorage) */}
+        <h2 className="mt-6 text-white text-xl font-bold">Unlimited</h2>
+        <UnlimitedHistory games={null} />
       </GameFrame>
     );
   }
@@ -215,8 +258,9 @@ export default async function HistoryPage() {
   // Extract day IDs so we can fetch matching games in a single query
   const dayIds = dayList.map((day) => day.id);
 
-  // Map for quick lookup: dayId -> game record
+  // Maps for quick lookup: dayId -> game record (live daily / archive replay)
   const gamesByDay = new Map<string, GameRow>();
+  const archiveGamesByDay = new Map<string, GameRow>();
 
   // Only query games if we actually have days to request
   if (dayIds.length > 0) {
@@ -225,7 +269,7 @@ export default async function HistoryPage() {
     const { data: games, error: gamesError } = await supabase
       .from("games")
       .select(
-        "id, daily_pokemon_id, won, is_finished, guesses(attempt_number, guess_name)",
+        "id, daily_pokemon_id, mode, won, is_finished, guesses(attempt_number, guess_name)",
       )
       .eq("user_id", user.id) // Only this user's games
       .in("daily_pokemon_id", dayIds); // Only days we are displaying
@@ -233,11 +277,21 @@ export default async function HistoryPage() {
     // If the query succeeded, store each game by its day ID for fast access
     if (!gamesError && games) {
       for (const game of games) {
-        gamesByDay.set(game.daily_pokemon_id, game);
+        // Unlimited games have no day (listed in their own section)
+        if (!game.daily_pokemon_id || game.mode === "unlimited") continue;
+        const byDay = game.mode === "archive" ? archiveGamesByDay : gamesByDay;
+        byDay.set(game.daily_pokemon_id, {
+          ...game,
+          daily_pokemon_id: game.daily_pokemon_id,
+          mode: game.mode,
+        });
       }
     }
   }
 
+  // Finished unlimited games (stats + recent games)
+  const unlimitedGames = (await getUnlimitedGames()) ?? [];
+
   /* ------------------------------- Render ---------------------------------- */
 
   return (
@@ -254,6 +308,9 @@ export default async function HistoryPage() {
       {/* Page title */}
       <h1 className="text-white text-2xl font-bold">Guess History</h1>
 
+      {/* Switch between daily tracks */}
+      <TrackTabs current={track} basePath="/history" />
+
       {/* Outer history panel */}
       <div className="mt-4 w-full rounded-2xl border border-white/10 bg-black/20 shadow-[0_10px_26px_rgba(0,0,0,0.35)] p-5">
         {/* Empty history state */}
@@ -264,18 +321,22 @@ export default async function HistoryPage() {
           <div className="flex flex-col gap-4">
             {/* Render one row per day */}
             {dayList.map((day) => {
-              // Look up the user's game for this day (if it exists)
+              // Look up the user's games for this day (if they exist)
               const game = gamesByDay.get(day.id);
+              const archiveGame = archiveGamesByDay.get(day.id);
 
               // Build MAX_ATTEMPTS tiles for this day
               const tiles = buildTiles(day, game);
 
               return (
-                <div key={day.id} className="flex items-center gap-6">
-                  {/* Left: Day label */}
-                  <div className="w-36 text-[#9aa6c3]">
+                <div key={day.id} className="flex flex-wrap items-center gap-x-6 gap-y-2">
+                  {/* Left: Day label (links to the puzzle) */}
+                  <Link
+                    href={playHref(day.available_on, todayIso, track)}
+                    className="w-36 text-[#9aa6c3] hover:text-white underline-offset-4 hover:underline"
+                  >
                     {formatDate(day.available_on)}
-                  </div>
+                  </Link>
 
                   {/* Right: Attempt tiles */}
                   <div className="flex flex-wrap gap-2">
@@ -288,6 +349,16 @@ export default async function HistoryPage() {
                       />
                     ))}
                   </div>
+
+                  {/* Archive replay result (kept apart from the daily tiles) */}
+                  {archiveGame && (
+                    <Link
+                      href={playHref(day.available_on, todayIso, track)}
+                      className="text-sm text-[#9aa6c3] hover:text-white"
+                    >
+                      {archiveLabel(archiveGame)}
+                    </Link>
+                  )}
                 </div>
               );
             })}
@@ -315,6 +386,10 @@ export default async function HistoryPage() {
           </div>
         </div>
       </div>
+
+      {/* Unlimited games */}
+      <h2 className="mt-6 text-white text-xl font-bold">Unlimited</h2>
+      <UnlimitedHistory games={unlimitedGames} />
     </GameFrame>
   );
 }
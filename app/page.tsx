@@ -7,84 +7,45 @@
   Responsibilities:
   - Get authenticated user (if logged in)
   - Determine if user is admin
-  - Fetch today's Pokémon from database
-  - Fetch Pokémon details from PokéAPI
-  - Fetch user's game + stats
-  - Render GameFrame layout
+  - Pick the daily track (?track=, defaults to classic)
+  - Work out the player's day (their timezone, see lib/timezone)
+  - Fetch today's Pokémon of that track from database (picked by the
+    fallback when the schedule has no row for today)
+  - Build the redacted puzzle view (only hints unlocked so far)
+  - Fetch user's stats for the track
+  - Render GameFrame layout + the track switcher
+  - Show open admin alerts to admins
   - Pass all required data to GameClient
+
+  The answer itself never reaches the browser before the game ends.
 */
 
 /* --------------------------------- Imports -------------------------------- */
 
-import Link from "next/link"; // Client-side navigation
 import { createClient } from "@/lib/supabase/server"; // Server-side Supabase client
-import Pokedex from "pokedex-promise-v2"; // PokéAPI wrapper
 import GameFrame from "./components/GameFrame"; // Layout wrapper
 import GameClient from "./components/GameClient"; // Main interactive client component
-import { getTodaysPokemon, getUserGame } from "@/lib/actions/guess"; // Game data
+import TrackTabs from "./components/TrackTabs"; // Daily track switcher
+import AdminAlerts from "./components/AdminAlerts"; // Admin alerts
+import { getPuzzleView, getTodaysTrackResults } from "@/lib/actions/guess"; // Game data
+import { fetchTodaysPokemon } from "@/lib/puzzleSession"; // Today's row (server-only)
 import { getUserStats } from "@/lib/actions/stats"; // Stats data
-
-/* ----------------------------- PokéAPI Instance ---------------------------- */
-
-// Create one Pokedex instance for API calls
-const P = new Pokedex();
+import { getOpenAdminAlerts } from "@/lib/actions/admin"; // Admin alerts
+import { parseTrack } from "@/lib/tracks"; // Daily tracks
+import { getPlayerDay } from "@/lib/playerTimeZone"; // Player's day
 
 /* -------------------------------------------------------------------------- */
-/*                     Helper: Get Evolution Stage                            */
+/*                                Page Component                              */
 /* -------------------------------------------------------------------------- */
-/*
-  Fetches evolution chain for a Pokémon and determines
-  which stage it belongs to (1, 2, 3, etc).
-*/
-async function getEvolutionStage(
-  pokemonName: string,
-  speciesData?: { evolution_chain: { url: string } },
-) {
-  // Fetch species data
-  const species = speciesData ?? (await P.getPokemonSpeciesByName(pokemonName));
-
-  // Fetch evolution chain
-  const evolutionChainId = species.evolution_chain.url
-    .split("/")
-    .filter(Boolean)
-    .pop();
-
-  if (!evolutionChainId) {
-    return 1;
-  }
-
-  const evoChain = await P.getEvolutionChainById(Number(evolutionChainId));
-
-  // Traverse full evolution tree (supports branched chains)
-  const queue = [{ node: evoChain.chain, stage: 1 }];
-
-  while (queue.length > 0) {
-    const current = queue.shift();
-
-    if (!current) {
-      continue;
-    }
-
-    // If current matches Pokémon, return its stage
-    if (current.node.species.name === pokemonName) {
-      return current.stage;
-    }
-
-    // Enqueue all next evolutions (not just first branch)
-    for (const nextEvolution of current.node.evolves_to ?? []) {
-      queue.push({ node: nextEvolution, stage: current.stage + 1 });
-    }
-  }
 
-  // Default fallback
-  return 1;
-}
+type Props = {
+  searchParams: Promise<{ track?: string }>; // Selected daily track
+};
 
-/* -------------------------------------------------------------------------- */
-/*                                Page Component                              */
-/* -------------------------------------------------------------------------- */
+export default async function Page({ searchParams }: Props) {
+  // Unknown tracks fall back to the classic one
+  const track = parseTrack((await searchParams).track);
 
-export default async function Page() {
   /* ----------------------------- Auth Handling ----------------------------- */
 
   // Create Supabase server client
@@ -112,66 +73,69 @@ export default async function Page() {
 
   /* ------------------------- Get Today's Pokémon -------------------------- */
 
-  const pokemonData = await getTodaysPokemon();
+  const pokemonData = await fetchTodaysPokemon(track);
 
-  // Strong typing for Pokémon object
-  let pokemon: Pokedex.Pokemon & { evolutionStage?: number };
-  let generation: string;
-
-  // If no Pokémon data exists for today
+  // No row for today and the fallback could not save one
   if (!pokemonData) {
     return <div className="text-white">No pokemon data available</div>;
   }
 
   // Extract DB values
-  const correctPokemon = pokemonData.pokemon_name;
   const availableOn = pokemonData.available_on;
 
   /*
-    Calculate nextGuessAt:
-    - available_on is midnight UTC
-    - Add 1 day to determine next playable time
+    nextGuessAt:
+    - the next midnight in the player's timezone (or when a pending
+      timezone change takes over, whichever gives the next day)
   */
-  const nextGuessAt = new Date(`${availableOn}T00:00:00.000Z`);
-  nextGuessAt.setUTCDate(nextGuessAt.getUTCDate() + 1);
-
-  /* --------------------------- PokéAPI Fetching ---------------------------- */
+  const { nextDayAt: nextGuessAt, clockOffsetMs } = await getPlayerDay();
 
-  try {
-    // Fetch species info (for generation)
-    const speciesData = await P.getPokemonSpeciesByName(correctPokemon);
-    generation = speciesData.generation.name;
+  /* --------------------------- Redacted View ------------------------------ */
 
-    // Fetch Pokémon full data (sprites, types, etc.)
-    pokemon = await P.getPokemonByName(correctPokemon);
+  let view: Awaited<ReturnType<typeof getPuzzleView>>;
 
-    // Determine evolution stage
-    const evolutionStage = await getEvolutionStage(correctPokemon, speciesData);
-    pokemon.evolutionStage = evolutionStage;
+  try {
+    // Only the hints the player has unlocked so far
+    view = await getPuzzleView({ kind: "daily", track });
   } catch (error) {
     console.error("Error fetching pokemon:", error);
     return <div className="text-white">Error loading pokemon data</div>;
   }
 
-  /* -------------------------- User Game & Stats ---------------------------- */
+  if (!view) {
+    return <div className="text-white">No pokemon data available</div>;
+  }
+
+  /* ------------------------------ User Stats ------------------------------- */
 
-  // Get today's game for this user (if logged in)
-  const game = user ? await getUserGame() : null;
+  // Get user statistics for this track (if logged in)
+  const stats = user ? await getUserStats(track) : null;
 
-  // Get user statistics (if logged in)
-  const stats = user ? await getUserStats() : null;
+  // Which tracks are already finished today
+  const trackResults = await getTodaysTrackResults();
+
+  // Open alerts (e.g. fallback puzzles), admins only
+  const adminAlerts = isAdmin ? await getOpenAdminAlerts() : [];
 
   /* ------------------------------ Render Page ------------------------------ */
 
   return (
     <GameFrame
     >
+      {/* Things an admin should look at */}
+      <AdminAlerts alerts={adminAlerts} />
+
+      {/* Switch between today's daily tracks */}
+      <TrackTabs current={track} results={trackResults} />
+
       {/* Main interactive game component */}
       <GameClient
-        pokemon={pokemon} // Pokémon full data
-        generation={generation} // Generation string
-        game={game} // User's game for today
-        nextGuessAt={nextGuessAt.toISOString()} // Cooldown target
+        key={track} // Fresh client state per track
+        view={view} // Redacted puzzle state
+        isSignedIn={!!user} // Whether progress is saved to the account
+        nextGuessAt={nextGuessAt} // Cooldown target
+        clockOffsetMs={clockOffsetMs} // Server clock (simulated time)
+        today={availableOn} // Date of this daily puzzle
         stats={stats} // User statistics
         isAdmin={isAdmin} // Admin flag
       />
@@ -7,69 +7,64 @@
   Responsibilities:
   - Get authenticated user (if logged in)
   - Determine if user is admin
-  - Pick a random Pokémon each time the page loads
-  - Fetch Pokémon details from PokéAPI
-  - Fetch user stats (optional, if logged in)
+  - Play the puzzle named by ?seed= (opaque id, the answer is derived from
+    it on the server) and the pool filters next to it (?gen=&type=&stage=
+    &difficulty=), so a link plays the same puzzle for everyone
+  - Without a (valid) seed, redirect to a fresh one, using the filters in
+    the URL or else the player's saved filters
+  - Render the filter panel
+  - Build the redacted puzzle view
+  - Fetch user stats and unlimited stats (optional, if logged in)
   - Render GameFrame layout + GameClient
-  - Force a fresh game each load (game = null)
 */
 
 /* --------------------------------- Imports -------------------------------- */
 
-import Link from "next/link"; // Client-side navigation
+import { redirect } from "next/navigation"; // Fresh seed redirect
 import { createClient } from "@/lib/supabase/server"; // Server-side Supabase client
-import Pokedex from "pokedex-promise-v2"; // PokéAPI wrapper
 import GameFrame from "../components/GameFrame"; // Shared layout wrapper
 import GameClient from "../components/GameClient"; // Main interactive game client component
-import { getUserStats } from "@/lib/actions/stats"; // User stats query
-
-/* ----------------------------- PokéAPI Instance ---------------------------- */
-
-// Create one Pokedex instance for API calls
-const P = new Pokedex();
+import UnlimitedFilters from "../components/UnlimitedFilters"; // Pool filter panel
+import { getPuzzleView } from "@/lib/actions/guess"; // Redacted puzzle view
+import { isUnlimitedPuzzleId, newUnlimitedPuzzleId } from "@/lib/puzzle"; // Opaque puzzle ids
+import { getUnlimitedStats, getUserStats } from "@/lib/actions/stats"; // User stats queries
+import {
+  hasFilters,
+  parseUnlimitedFilters,
+  unlimitedFiltersQuery,
+} from "@/lib/unlimitedFilters"; // Pool filters
+import { readSavedUnlimitedFilters } from "@/lib/unlimitedPreferences"; // Saved filters
+import { getPlayerToday } from "@/lib/playerTimeZone"; // Player's day
 
 /* -------------------------------------------------------------------------- */
-/*                     Helper: Get Evolution Stage                            */
+/*                                Page Component                              */
 /* -------------------------------------------------------------------------- */
-/*
-  Fetches evolution chain for a Pokémon and determines
-  which stage it belongs to (1, 2, 3, etc).
-*/
-async function getEvolutionStage(pokemonName: string) {
-  // Fetch species data
-  const speciesRes = await fetch(
-    `https://pokeapi.co/api/v2/pokemon-species/${pokemonName}`,
-  );
-  const species = await speciesRes.json();
 
-  // Fetch evolution chain data using the URL in species response
-  const evoRes = await fetch(species.evolution_chain.url);
-  const evoChain = await evoRes.json();
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>; // seed + filters
+};
 
-  // Traverse evolution chain until we find the pokemonName
-  let stage = 1;
-  let current = evoChain.chain;
+export default async function Page({ searchParams }: Props) {
+  /* ------------------------------ Puzzle Seed ------------------------------ */
 
-  while (current) {
-    // If this species is the Pokémon we're looking for, return stage number
-    if (current.species.name === pokemonName) {
-      return stage;
-    }
+  const params = await searchParams;
+  const seed = params.seed;
 
-    // Move to next evolution node
-    current = current.evolves_to?.[0];
-    stage++;
-  }
+  // Filters in the URL belong to the puzzle (a shared link keeps them)
+  let filters = parseUnlimitedFilters(params);
 
-  // Fallback if chain traversal fails
-  return 1;
-}
+  // New puzzle: give it a URL of its own (seed + filters) so it can be shared
+  if (!isUnlimitedPuzzleId(seed)) {
+    if (!hasFilters(filters)) {
+      filters = await readSavedUnlimitedFilters();
+    }
 
-/* -------------------------------------------------------------------------- */
-/*                                Page Component                              */
-/* -------------------------------------------------------------------------- */
+    const query = unlimitedFiltersQuery(filters);
+    redirect(
+      `/unlimited?seed=${newUnlimitedPuzzleId()}${query ? `&${query}` : ""}`,
+    );
+  }
 
-export default async function Page() {
   /* ----------------------------- Auth Handling ----------------------------- */
 
   // Create Supabase server client
@@ -95,57 +90,55 @@ export default async function Page() {
     isAdmin = data?.admin || false;
   }
 
-  /* ----------------------- Pokémon Fetching Variables ---------------------- */
-
-  let pokemon: Pokedex.Pokemon & { evolutionStage?: number };
-  let generation: string;
-
-  /* ---------------------------- Pick Random Pokémon ------------------------ */
+  /* ------------------------------ Load Puzzle ------------------------------ */
 
-  // Pick a random Pokémon ID (1..1025)
-  const randomId = Math.floor(Math.random() * 1025) + 1;
-
-  // Resolve the Pokémon name from its ID
-  const correctPokemon = (await P.getPokemonByName(randomId)).name;
-
-  /* --------------------------- PokéAPI Fetching ---------------------------- */
+  let view: Awaited<ReturnType<typeof getPuzzleView>>;
 
   try {
-    // Fetch species info (to get generation)
-    const speciesData = await P.getPokemonSpeciesByName(correctPokemon);
-    generation = speciesData.generation.name;
-
-    // Fetch full Pokémon data (sprites, types, etc.)
-    pokemon = await P.getPokemonByName(correctPokemon);
-
-    // Determine evolution stage and attach it to pokemon object
-    const evolutionStage = await getEvolutionStage(correctPokemon);
-    pokemon.evolutionStage = evolutionStage;
+    // Same seed -> same answer (and the player's own progress on it)
+    view = await getPuzzleView({ kind: "unlimited", id: seed, filters });
   } catch (error) {
     console.error("Error fetching pokemon:", error);
     return <div className="text-white">Error loading pokemon data</div>;
   }
 
-  /* ------------------------------ Game / Stats ----------------------------- */
+  // Only happens when nothing matches the filters in the link
+  if (!view) {
+    return (
+      <GameFrame
+      >
+        <div className="text-white">No Pokémon match these filters.</div>
+        <UnlimitedFilters filters={filters} />
+      </GameFrame>
+    );
+  }
 
-  // Unlimited mode always starts fresh, so there is no stored "game"
-  const game = null;
+  /* ------------------------------ Game / Stats ----------------------------- */
 
   // Stats only available if user is logged in
   const stats = user ? await getUserStats() : null;
+  const unlimitedStats = user ? await getUnlimitedStats() : null;
+
+  // Player's date (daily streak in the stats dialog)
+  const today = await getPlayerToday();
 
   /* ------------------------------ Render Page ------------------------------ */
 
   return (
     <GameFrame
     >
+      {/* Generations, types, stage and difficulty of the pool */}
+      <UnlimitedFilters key={seed} filters={filters} />
+
       {/* Main interactive game component */}
       <GameClient
-        pokemon={pokemon}          // Random Pokémon full data
-        generation={generation}    // Generation string
-        game={game}                // Always null in unlimited
+        key={seed}                 // Fresh client state per puzzle
+        view={view}                // Redacted puzzle state
+        isSignedIn={!!user}        // Whether the player is logged in
         nextGuessAt=""             // No daily cooldown in unlimited
+        today={today}              // Player's date (stats)
         stats={stats}              // User stats (optional)
+        unlimitedStats={unlimitedStats} // Unlimited stats (optional)
         isAdmin={isAdmin}          // Admin flag (optional tools)
         isUnlimited={true}         // Enables unlimited-mode behavior in GameClient
       />
@@ -0,0 +1,75 @@
+"use server";
+
+/* -------------------------------------------------------------------------- */
+/*                                  admin.ts                                  */
+/* -------------------------------------------------------------------------- */
+/*
+  Server Actions for admin alerts (admin_alerts table).
+
+  Alerts are recorded by the server (e.g. lib/dailyFallback when today's
+  puzzle had to be picked by the fallback). Row level security only lets
+  admins read and resolve them, so everyone else gets an empty list.
+
+  Exported functions:
+  - getOpenAdminAlerts(): unresolved alerts, newest first
+  - resolveAdminAlert(id): marks an alert resolved
+*/
+
+import { createClient } from "@/lib/supabase/server"; // Server Supabase client (session/cookies aware)
+
+// Alert as shown to admins
+export type AdminAlert = {
+  id: string;
+  kind: string; // e.g. "daily_fallback"
+  message: string;
+  createdAt: string; // ISO timestamp
+};
+
+/* -------------------------------------------------------------------------- */
+/*                             getOpenAdminAlerts                             */
+/* -------------------------------------------------------------------------- */
+export async function getOpenAdminAlerts(): Promise<AdminAlert[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("admin_alerts")
+    .select("id, kind, message, created_at")
+    .is("resolved_at", null)
+    .order("created_at", { ascending: false })
+    .limit(20);
+
+  if (error || !data) return [];
+
+  return data.map((row) => ({
+    id: row.id,
+    kind: row.kind,
+    message: row.message,
+    createdAt: row.created_at,
+  }));
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             resolveAdminAlert                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Returns:
+  - true if the alert was resolved (false for non-admins / unknown ids)
+*/
+export async function resolveAdminAlert(id: string): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from("admin_alerts")
+    .update({ resolved_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("resolved_at", null)
+    .select("id");
+
+  if (error) {
+    // Log server error for debugging
+    console.error("Error resolving admin alert:", error);
+    return false;
+  }
+
+  return data.length > 0;
+}
@@ -0,0 +1,341 @@
+"use server";
+
+/* -------------------------------------------------------------------------- */
+/*                                  blitz.ts                                  */
+/* -------------------------------------------------------------------------- */
+/*
+  Server Actions for timed blitz mode (see lib/blitz for the rules and the
+  clock).
+
+  Where runs are stored:
+  - Logged in: blitz_runs table (read with the player's session, written
+    with the service role so players cannot edit their own score)
+  - Logged out: signed blitz cookie (see lib/guestProgress.ts)
+
+  Guest runs are never ranked: the browser can put back an older copy of
+  its cookie and replay a round, so a guest score only counts for that
+  browser. Guest runs are never copied into blitz_runs (not even on
+  sign-in), and the state says whether the score is ranked.
+
+  Exported functions:
+  - getBlitzState(): the player's latest run (redacted) and personal best
+  - startBlitzRun(): starts a new run (or returns the one still running)
+  - submitBlitzGuess(rawGuessName, runId): checks the clock, evaluates a
+    guess and moves on to the next round once the current one is decided
+
+  Internal helpers:
+  - loadRun(userId): latest run of the player
+  - loadBest(userId): personal best of the player
+  - saveRun(userId, run, version): stores the next state of a run
+*/
+
+import { randomUUID } from "crypto"; // Run ids
+import { createClient } from "@/lib/supabase/server"; // Server Supabase client (session/cookies aware)
+import { createAdminClient } from "@/lib/supabase/admin"; // Service role (score writes)
+import type { Tables } from "@/lib/supabase/database"; // Row types
+import type { PuzzleView } from "@/lib/puzzle"; // Redacted round
+import {
+  applyBlitzGuess,
+  buildBlitzView,
+  newBlitzRun,
+  type BlitzRuleError,
+  type BlitzRun,
+  type BlitzView,
+} from "@/lib/blitz"; // Rules + clock
+import { readGuestBlitz, writeGuestBlitz } from "@/lib/guestProgress"; // Guest runs
+import { canonicalizePokemonName } from "@/lib/actions/pokemon"; // Catalog validation
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+// Latest run + personal best (rendered by BlitzClient)
+export type BlitzState = {
+  view: BlitzView | null; // null before the first run
+  best: number; // Personal best score
+  ranked: boolean; // Whether scores are stored (signed in) or browser-only
+};
+
+// Result of a blitz guess
+export type BlitzGuessResult =
+  | {
+      ok: true;
+      correct: boolean; // Whether the guess solved the round
+      finishedRound: PuzzleView | null; // Round decided by this guess (answer revealed)
+      state: BlitzState; // Updated run
+    }
+  | {
+      ok: false;
+      error: BlitzGuessError;
+    };
+
+// Reasons a blitz guess can be rejected
+export type BlitzGuessErrorCode =
+  | BlitzRuleError // Clock or repeated guess (see lib/blitz)
+  | "NO_RUN" // No run with that id
+  | "UNKNOWN_POKEMON" // The name is not in the Pokémon catalog
+  | "CONFLICT" // Another guess was saved at the same time (e.g. double-click)
+  | "SAVE_FAILED"; // Database error
+
+// Structured error returned to the client
+export type BlitzGuessError = {
+  code: BlitzGuessErrorCode;
+  message: string; // Human-readable message the UI can show
+};
+
+// Messages for rejected guesses
+const ERROR_MESSAGES: Record<BlitzGuessErrorCode, string> = {
+  TIME_UP: "Time is up!",
+  CLOCK_MISMATCH: "This run's clock is out of sync.",
+  DUPLICATE_GUESS: "You already guessed that Pokémon.",
+  NO_RUN: "This run is no longer active.",
+  UNKNOWN_POKEMON: "That Pokémon does not exist.",
+  CONFLICT: "Another guess was submitted at the same time.",
+  SAVE_FAILED: "Could not save guess.",
+};
+
+// Shorthand for building a rejected BlitzGuessResult
+function blitzError(code: BlitzGuessErrorCode): BlitzGuessResult {
+  return { ok: false, error: { code, message: ERROR_MESSAGES[code] } };
+}
+
+// Stored run + the row version it was read at (null for guest runs)
+type LoadedRun = {
+  run: BlitzRun;
+  version: number | null;
+};
+
+// Database row -> run state
+function rowToRun(row: Tables<"blitz_runs">): BlitzRun {
+  return {
+    id: row.id,
+    startedAt: Date.parse(row.started_at),
+    endsAt: Date.parse(row.ends_at),
+    score: row.score,
+    round: row.round,
+    roundStartedAt: Date.parse(row.round_started_at),
+    guesses: row.round_guesses,
+  };
+}
+
+// Current user id (null when logged out)
+async function getUserId() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  return user?.id ?? null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               getBlitzState                                */
+/* -------------------------------------------------------------------------- */
+export async function getBlitzState(): Promise<BlitzState> {
+  const userId = await getUserId();
+  const loaded = await loadRun(userId);
+
+  return {
+    view: loaded ? await buildBlitzView(loaded.run, Date.now()) : null,
+    best: await loadBest(userId),
+    ranked: userId !== null,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               startBlitzRun                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Starts a new run on the server's clock. A run that is still going is
+  returned as is (starting over does not reset the clock).
+
+  Returns:
+  - BlitzState of the running run, or null if it could not be created
+*/
+export async function startBlitzRun(): Promise<BlitzState | null> {
+  const userId = await getUserId();
+  const now = Date.now();
+
+  const current = await loadRun(userId);
+  if (current && now < current.run.endsAt) return getBlitzState();
+
+  const run = newBlitzRun(randomUUID(), now);
+
+  if (userId) {
+    const { error } = await createAdminClient()
+      .from("blitz_runs")
+      .insert({
+        id: run.id,
+        user_id: userId,
+        started_at: new Date(run.startedAt).toISOString(),
+        ends_at: new Date(run.endsAt).toISOString(),
+        round_started_at: new Date(run.roundStartedAt).toISOString(),
+      });
+
+    if (error) {
+      // Log server error for debugging
+      console.error("Error starting blitz run:", error);
+      return null;
+    }
+  } else {
+    const guest = await readGuestBlitz();
+    await writeGuestBlitz({ ...guest, run });
+  }
+
+  return {
+    view: await buildBlitzView(run, now),
+    best: await loadBest(userId),
+    ranked: userId !== null,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              submitBlitzGuess                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Evaluates a guess for the current round of a run.
+
+  Rules:
+  - The guess is timed when it reaches the server and checked against the
+    run's timestamps (see checkBlitzClock); nothing the browser sends
+    about time is used
+  - The name must exist in the Pokémon catalog
+  - No repeated guesses within a round
+  - Concurrent guesses on the same run: only the first one counts
+
+  Inputs:
+  - rawGuessName: the Pokémon name guessed by the user
+  - runId: the run the browser is playing (a newer run in another tab
+    makes this one stale)
+
+  Returns:
+  - BlitzGuessResult with the updated state, or a structured error
+*/
+export async function submitBlitzGuess(
+  rawGuessName: string,
+  runId: string,
+): Promise<BlitzGuessResult> {
+  // Time the guess before anything else
+  const now = Date.now();
+
+  const userId = await getUserId();
+  const loaded = await loadRun(userId);
+
+  if (!loaded || loaded.run.id !== runId) return blitzError("NO_RUN");
+
+  // Only real Pokémon can be guessed (canonical name, e.g. "mr mime" -> "mr-mime")
+  const guessName = await canonicalizePokemonName(rawGuessName);
+  if (!guessName) return blitzError("UNKNOWN_POKEMON");
+
+  const outcome = await applyBlitzGuess(loaded.run, guessName, now);
+  if ("error" in outcome) return blitzError(outcome.error);
+
+  const saveError = await saveRun(userId, outcome.run, loaded.version);
+  if (saveError) return blitzError(saveError);
+
+  return {
+    ok: true,
+    correct: outcome.correct,
+    finishedRound: outcome.finishedRound,
+    state: {
+      view: await buildBlitzView(outcome.run, Date.now()),
+      best: Math.max(await loadBest(userId), outcome.run.score),
+      ranked: userId !== null,
+    },
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  loadRun                                   */
+/* -------------------------------------------------------------------------- */
+/*
+  Internal helper that loads the player's latest run (from blitz_runs when
+  logged in, the blitz cookie otherwise).
+
+  Returns:
+  - run + row version, or null if the player never started one
+*/
+async function loadRun(userId: string | null): Promise<LoadedRun | null> {
+  if (!userId) {
+    const { run } = await readGuestBlitz();
+    return run ? { run, version: null } : null;
+  }
+
+  // Create server Supabase client (RLS: own runs only)
+  const supabase = await createClient();
+
+  const { data: row } = await supabase
+    .from("blitz_runs")
+    .select("*")
+    .eq("user_id", userId)
+    .order("started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return row ? { run: rowToRun(row), version: row.version } : null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  loadBest                                  */
+/* -------------------------------------------------------------------------- */
+async function loadBest(userId: string | null) {
+  if (!userId) return (await readGuestBlitz()).best;
+
+  // Create server Supabase client (RLS: own runs only)
+  const supabase = await createClient();
+
+  const { data: row } = await supabase
+    .from("blitz_runs")
+    .select("score")
+    .eq("user_id", userId)
+    .order("score", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return row?.score ?? 0;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  saveRun                                   */
+/* -------------------------------------------------------------------------- */
+/*
+  Internal helper that stores the next state of a run. Database updates
+  only apply if the row is still at the version it was read at, so two
+  guesses sent at once cannot both be counted.
+
+  Returns:
+  - error code, or null when saved
+*/
+async function saveRun(
+  userId: string | null,
+  run: BlitzRun,
+  version: number | null,
+): Promise<BlitzGuessErrorCode | null> {
+  if (!userId || version === null) {
+    const guest = await readGuestBlitz();
+    await writeGuestBlitz({ run, best: Math.max(guest.best, run.score) });
+    return null;
+  }
+
+  const { data, error } = await createAdminClient()
+    .from("blitz_runs")
+    .update({
+      score: run.score,
+      round: run.round,
+      round_started_at: new Date(run.roundStartedAt).toISOString(),
+      round_guesses: run.guesses,
+      version: version + 1,
+    })
+    .eq("id", run.id)
+    .eq("user_id", userId)
+    .eq("version", version) // Someone else saved first: nothing updated
+    .select("id");
+
+  if (error) {
+    // Log server error for debugging
+    console.error("Error saving blitz run:", error);
+    return "SAVE_FAILED";
+  }
+
+  return data.length > 0 ? null : "CONFLICT";
+}
@@ -0,0 +1,66 @@
+"use server";
+
+/* -------------------------------------------------------------------------- */
+/*                                  clock.ts                                  */
+/* -------------------------------------------------------------------------- */
+/*
+  Server Actions for the simulated clock (QA, see lib/clock).
+
+  Only admins can move the clock, and only for their own browser. Nothing
+  they play meanwhile is saved to the database (see lib/clock).
+
+  Exported functions:
+  - setSimulatedNow(value): moves this browser's clock to a UTC date-time
+  - clearSimulatedNow(): back to real time
+*/
+
+import { createClient } from "@/lib/supabase/server"; // Server Supabase client (session/cookies aware)
+import { SimulatedNowSchema } from "@/lib/schemas"; // Untrusted input
+import { writeSimulatedNow } from "@/lib/clock"; // Clock cookie
+
+// Result of moving the clock (rendered by the clock banner)
+export type SetClockResult = { ok: true } | { ok: false; error: string };
+
+/* -------------------------------------------------------------------------- */
+/*                              setSimulatedNow                               */
+/* -------------------------------------------------------------------------- */
+/*
+  value: "YYYY-MM-DDTHH:mm[:ss]" in UTC (a trailing "Z" is allowed)
+*/
+export async function setSimulatedNow(value: unknown): Promise<SetClockResult> {
+  const parsed = SimulatedNowSchema.safeParse(value);
+
+  if (!parsed.success) {
+    return { ok: false, error: "Invalid date and time." };
+  }
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return { ok: false, error: "Only admins can change the clock." };
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("admin")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.admin) {
+    return { ok: false, error: "Only admins can change the clock." };
+  }
+
+  const iso = parsed.data.endsWith("Z") ? parsed.data : `${parsed.data}Z`;
+  await writeSimulatedNow(Date.parse(iso));
+
+  return { ok: true };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             clearSimulatedNow                              */
+/* -------------------------------------------------------------------------- */
+export async function clearSimulatedNow(): Promise<void> {
+  await writeSimulatedNow(null);
+}
@@ -4,66 +4,151 @@
 /*                                  guess.ts                                  */
 /* -------------------------------------------------------------------------- */
 /*
-  This file contains Server Actions for the daily guessing game.
+  This file contains Server Actions for the guessing game (daily, archive
+  and unlimited).
 
   Tables used (Supabase):
   - daily_pokemon: defines which Pokémon is active for a given date
-  - games: one row per user per daily puzzle
+  - games: one row per user per puzzle and mode ("daily" for the live
+    puzzle, "archive" for replays of past days, "unlimited" for unlimited
+    puzzles, which are identified by seed + filters instead of a day)
   - guesses: rows linked to a game (each attempt)
 
   Exported functions:
-  - getTodaysPokemon(): returns the daily_pokemon row for today
-  - getUserGame(): returns the current user's game for today (including guesses)
-  - createGame(): creates a new game row for the user for today
-  - createGuess(guessName): inserts a guess row for the user's game
-  - endGame(won): marks the game as finished and sets won=true/false
-
-  Internal helper:
-  - getOrCreateGame(): returns today's game or creates it if missing
+  - getPuzzleView(puzzle): returns the redacted view of a puzzle for the player
+  - getTodaysTrackResults(): whether each daily track is finished today
+  - createGuess(guessName, puzzle): evaluates a guess against the puzzle's answer,
+    stores it and finishes the game when it is decided
+  - previewPuzzleResult(puzzle, outcome): admin-only finished view (not saved)
+
+  Where progress is stored:
+  - Logged in: games/guesses tables (written with the service role only;
+    players can read their rows but not change them)
+  - Logged out: signed progress cookie (see lib/guestProgress.ts)
+
+  Internal helpers:
+  - gameSlotFor(puzzle, resolved): which games row a puzzle is stored in
+  - findGame(slot): loads the user's game for a puzzle
+  - insertGame(slot): creates it (race-safe)
+  - getOrCreateGame(slot): returns the game or creates it
+  (answers and daily_pokemon rows are loaded by lib/puzzleSession.ts,
+  which is not a Server Action module, so nothing here can return an
+  answer to the browser)
 */
 
 import { createClient } from "@/lib/supabase/server"; // Server Supabase client (session/cookies aware)
+import { createAdminClient } from "@/lib/supabase/admin"; // Service role (game + guess writes)
+import { isClockSimulated } from "@/lib/clock"; // QA clock (nothing saved)
+import {
+  buildPuzzleView,
+  loadPuzzleAnswer,
+  planGuess,
+  type GuessRuleError,
+  type PuzzleRef,
+  type PuzzleView,
+} from "@/lib/puzzle"; // Guess rules, answer loading + redaction
+import { readGuestGuesses, writeGuestGuesses } from "@/lib/guestProgress"; // Cookie progress
+import { resolvePuzzle, type ResolvedPuzzle } from "@/lib/puzzleSession"; // Answer lookup
+import { canonicalizePokemonName } from "@/lib/actions/pokemon"; // Catalog validation
+import { DAILY_TRACKS, DEFAULT_TRACK, type DailyTrack } from "@/lib/tracks"; // Daily tracks
+import { unlimitedFiltersQuery } from "@/lib/unlimitedFilters"; // Canonical filters
 
 /* -------------------------------------------------------------------------- */
-/*                             getTodaysPokemon                               */
+/*                                   Types                                    */
 /* -------------------------------------------------------------------------- */
-/*
-  Loads the daily_pokemon row for today's date (UTC-based ISO string split).
-
-  Returns:
-  - daily_pokemon row object (or null/undefined if not found)
-*/
-export async function getTodaysPokemon() {
-  // Create server Supabase client
-  const supabase = await createClient();
 
-  // Build today's date string in YYYY-MM-DD format
-  const todayIso = new Date().toISOString().split("T")[0];
+// Result of evaluating a guess on the server (rendered by GameClient)
+export type GuessResult =
+  | {
+      ok: true;
+      correct: boolean; // Whether the guess matches the answer
+      attemptNumber: number; // Attempt number of this guess
+      view: PuzzleView; // Updated redacted view (newly unlocked hints)
+    }
+  | {
+      ok: false;
+      error: GuessError; // Why the guess was rejected
+    };
+
+// Reasons a guess can be rejected
+export type GuessErrorCode =
+  | GuessRuleError // Finished game, no attempts left or repeated guess (see lib/puzzle)
+  | "NO_PUZZLE" // No daily puzzle for today
+  | "UNKNOWN_POKEMON" // The name is not in the Pokémon catalog
+  | "CONFLICT" // Another guess was saved at the same time (e.g. double-click)
+  | "SAVE_FAILED"; // Database error
+
+// Structured error returned to the client
+export type GuessError = {
+  code: GuessErrorCode;
+  message: string; // Human-readable message the UI can show
+};
+
+// Today's progress on one daily track (track switcher)
+export type TrackResult = {
+  track: DailyTrack;
+  isFinished: boolean; // Won or out of attempts
+  won: boolean;
+};
+
+// Postgres error code for unique constraint violations
+const UNIQUE_VIOLATION = "23505";
+
+// games row of a puzzle: a day (live or replayed) or an unlimited seed
+type GameSlot =
+  | { mode: "daily" | "archive"; dailyPokemonId: string }
+  | { mode: "unlimited"; seed: string; filters: string }; // filters = canonical query
+
+// Which games row a puzzle is stored in (null = not stored in games)
+function gameSlotFor(
+  puzzle: PuzzleRef,
+  resolved: ResolvedPuzzle,
+): GameSlot | null {
+  if (puzzle.kind === "unlimited") {
+    return {
+      mode: "unlimited",
+      seed: puzzle.id,
+      filters: unlimitedFiltersQuery(puzzle.filters),
+    };
+  }
 
-  // Query daily_pokemon for the row matching today's date
-  const { data: pokemonData } = await supabase
-    .from("daily_pokemon") // Daily puzzle table
-    .select("*") // Fetch all columns
-    .eq("available_on", todayIso) // Only today's record
-    .single(); // Expect exactly one row
+  if (!resolved.dailyPokemonId) return null;
+  if (puzzle.kind === "daily") {
+    return { mode: "daily", dailyPokemonId: resolved.dailyPokemonId };
+  }
+  if (puzzle.kind === "archive") {
+    return { mode: "archive", dailyPokemonId: resolved.dailyPokemonId };
+  }
+  return null;
+}
 
-  // Return the row (or null if missing)
-  return pokemonData;
+// Shorthand for building a rejected GuessResult
+function guessError(code: GuessErrorCode, message: string): GuessResult {
+  return { ok: false, error: { code, message } };
 }
 
+// Messages for guesses that break the game's rules
+const RULE_MESSAGES: Record<GuessRuleError, string> = {
+  GAME_FINISHED: "You already solved this puzzle.",
+  NO_ATTEMPTS_LEFT: "You have no attempts left.",
+  DUPLICATE_GUESS: "You already guessed that Pokémon.",
+};
+
 /* -------------------------------------------------------------------------- */
-/*                                getUserGame                                 */
+/*                               getPuzzleView                                */
 /* -------------------------------------------------------------------------- */
 /*
-  Loads the current user's game record for today's daily Pokémon.
-  Includes nested guesses.
+  Builds the redacted view of a puzzle for the current player.
 
   Returns:
-  - game row with guesses included, or null if:
-    - user not logged in
-    - game not found
+  - PuzzleView, or null if there is no daily puzzle for that day
 */
-export async function getUserGame() {
+export async function getPuzzleView(
+  puzzle: PuzzleRef,
+): Promise<PuzzleView | null> {
+  const resolved = await resolvePuzzle(puzzle);
+  if (!resolved) return null;
+
   // Create server Supabase client
   const supabase = await createClient();
 
@@ -72,162 +157,350 @@ export async function getUserGame() {
     data: { user },
   } = await supabase.auth.getUser();
 
-  // Only proceed if user is logged in
-  if (user) {
-    // Load today's daily_pokemon row
-    const pokemon = await getTodaysPokemon();
+  let guesses: string[];
+
+  // Simulated clock (QA): progress stays in the cookie, like a guest's
+  const slot = (await isClockSimulated()) ? null : gameSlotFor(puzzle, resolved);
+
+  if (slot && user) {
+    // Logged in: guesses come from the database
+    const game = await findGame(slot);
+    guesses = (game?.guesses ?? [])
+      .slice()
+      .sort((a, b) => a.attempt_number - b.attempt_number)
+      .map((guess) => guess.guess_name);
+  } else {
+    // Everything else: guesses come from the signed progress cookie
+    guesses = await readGuestGuesses(resolved.key);
+  }
 
-    // If there is no daily puzzle row, stop with an error
-    if (!pokemon) {
-      throw new Error("No pokemon data available");
-    }
+  const answer = await loadPuzzleAnswer(resolved.answerName);
+  return buildPuzzleView(puzzle, resolved.key, answer, guesses);
+}
 
-    // Fetch the game row for this user and today's daily_pokemon_id
-    // Also fetch related guesses (nested)
-    const { data: game } = await supabase
-      .from("games") // Games table
-      .select("*, guesses(*)") // Include nested guesses
-      .eq("user_id", user.id) // Only this user
-      .eq("daily_pokemon_id", pokemon.id) // Only today's game
-      .single(); // Expect one row (or error if none)
+/* -------------------------------------------------------------------------- */
+/*                           getTodaysTrackResults                            */
+/* -------------------------------------------------------------------------- */
+/*
+  Today's progress on every daily track, for the track switcher.
+  Tracks without a puzzle today are left out.
+*/
+export async function getTodaysTrackResults(): Promise<TrackResult[]> {
+  const results: TrackResult[] = [];
+
+  for (const { id: track } of DAILY_TRACKS) {
+    const view = await getPuzzleView({ kind: "daily", track });
+    if (!view) continue;
 
-    // Return game row (or null if not found)
-    return game;
+    results.push({ track, isFinished: view.isFinished, won: view.won });
   }
 
-  // Not logged in => no game data
-  return null;
+  return results;
 }
 
 /* -------------------------------------------------------------------------- */
-/*                                 createGame                                 */
+/*                                createGuess                                 */
 /* -------------------------------------------------------------------------- */
 /*
-  Creates a new game row for the current user for today's daily Pokémon.
-  Immediately returns the created row including nested guesses.
+  Evaluates a guess against the puzzle's answer on the server.
+  The browser never decides whether a guess is correct.
+
+  Rules (enforced for every kind of puzzle):
+  - The name must exist in the Pokémon catalog; it is stored in its
+    canonical form (see canonicalizePokemonName)
+  - No guesses after a win or after MAX_ATTEMPTS attempts
+  - No repeated guesses
+
+  When logged in (daily, archive and unlimited puzzles):
+  - Inserts a guess row (attempt number = existing guesses length + 1)
+  - Marks the game finished when the guess is correct or attempts run out
+  - Unique constraints on guesses reject concurrent duplicates (CONFLICT)
+  - The database rejects guesses past the limit or on a finished game too
+    (see the guesses_check_game trigger)
+  - If the game row cannot be loaded or created, the guess is rejected
+    (SAVE_FAILED) instead of being kept in the cookie
+
+  Otherwise (logged out):
+  - Stores the guess in the signed progress cookie
+
+  Inputs:
+  - rawGuessName: the Pokémon name guessed by the user
+  - puzzle: which puzzle the guess is for (defaults to today's classic
+    daily puzzle)
 
   Returns:
-  - game row with guesses included, or:
-    - null if creation fails
-    - undefined if user is not logged in (because function exits without return)
+  - GuessResult with the updated view, or a structured error
 */
-export async function createGame() {
-  // Create server Supabase client
-  const supabase = await createClient();
+export async function createGuess(
+  rawGuessName: string,
+  puzzle: PuzzleRef = { kind: "daily", track: DEFAULT_TRACK },
+): Promise<GuessResult> {
+  // Service role client: games and guesses are read-only for players, so
+  // only these checked writes can store a guess or a result
+  const supabase = createAdminClient();
+
+  // Find the answer (it never leaves the server here)
+  const resolved = await resolvePuzzle(puzzle);
+
+  // Without a puzzle there is nothing to compare against
+  if (!resolved) {
+    return guessError("NO_PUZZLE", "No pokemon data available");
+  }
+
+  // Only real Pokémon can be guessed (canonical name, e.g. "mr mime" -> "mr-mime")
+  const guessName = await canonicalizePokemonName(rawGuessName);
+
+  if (!guessName) {
+    return guessError("UNKNOWN_POKEMON", "That Pokémon does not exist.");
+  }
 
   // Read current user from Supabase session
   const {
     data: { user },
-  } = await supabase.auth.getUser();
+  } = await (await createClient()).auth.getUser();
+
+  // Logged-in games are stored in the database (null when logged out, and
+  // on a simulated clock, see lib/clock)
+  const slot =
+    user && !(await isClockSimulated()) ? gameSlotFor(puzzle, resolved) : null;
+  const game = slot ? await getOrCreateGame(slot) : null;
+
+  // Never fall back to the cookie for a signed-in game: the player would
+  // think the guess was saved to their account
+  if (slot && !game) {
+    return guessError("SAVE_FAILED", "Could not save guess.");
+  }
+
+  let guesses: string[];
+  let correct: boolean;
 
-  // Only proceed if user is logged in
-  if (user) {
-    // Load today's daily_pokemon row
-    const pokemon = await getTodaysPokemon();
+  if (game) {
+    // Previous guesses in attempt order
+    const previousGuesses = game.guesses
+      .slice()
+      .sort((a, b) => a.attempt_number - b.attempt_number)
+      .map((guess) => guess.guess_name);
 
-    // If there is no daily puzzle row, stop with an error
-    if (!pokemon) {
-      throw new Error("No pokemon data available");
+    // A finished game never accepts more guesses
+    if (game.is_finished) {
+      return guessError("GAME_FINISHED", "This game is already finished.");
     }
 
-    try {
-      // Insert a new game row for this user and today's pokemon
-      const { data } = await supabase
+    // Decide correctness and the next attempt server-side
+    const plan = planGuess(guessName, previousGuesses, resolved.answerName);
+    if ("error" in plan) return guessError(plan.error, RULE_MESSAGES[plan.error]);
+
+    const { attemptNumber, isFinished } = plan;
+    correct = plan.correct;
+
+    // Insert a guess row into guesses table
+    const { error: insertError } = await supabase.from("guesses").insert({
+      game_id: game.id, // Link guess to game
+      user_id: game.user_id, // Store user_id for easy filtering
+      guess_name: guessName, // Store guess name
+      attempt_number: attemptNumber, // Next attempt number
+    });
+
+    if (insertError) {
+      // A concurrent request already stored this attempt (or this name)
+      if (insertError.code === UNIQUE_VIOLATION) {
+        return guessError(
+          "CONFLICT",
+          "Another guess was submitted at the same time.",
+        );
+      }
+
+      // Log server error for debugging
+      console.error("Error submitting guess:", insertError);
+      return guessError("SAVE_FAILED", "Could not save guess.");
+    }
+
+    // Mark the game finished (and store the result) once it is decided
+    if (isFinished) {
+      const { error: gameError } = await supabase
         .from("games") // Games table
-        .insert({
-          user_id: user.id, // Link to user
-          daily_pokemon_id: pokemon.id, // Link to today's daily puzzle
+        .update({
+          won: correct, // Store win/loss result
+          is_finished: true, // Mark finished
         })
-        .select("*, guesses(*)") // Return the created row + nested guesses
-        .single(); // Expect exactly one row returned
+        .eq("id", game.id) // Only update this game row
+        .not("is_finished", "is", true); // Never overwrite a decided game
+
+      if (gameError) {
+        // Log server error for debugging
+        console.error("Error ending game:", gameError);
+        return guessError("SAVE_FAILED", "Could not save game result.");
+      }
+    }
 
-      // Return created game
-      return data;
-    } catch (error) {
-      // Log error on server for debugging
-      console.error("Error creating game:", error);
+    guesses = [...previousGuesses, guessName];
+  } else {
+    // Logged out (or not stored in games): keep progress in the signed cookie
+    // (archive keys differ from daily keys, so replays never touch today)
+    const previousGuesses = await readGuestGuesses(resolved.key);
 
-      // Return null to indicate failure
-      return null;
-    }
+    const plan = planGuess(guessName, previousGuesses, resolved.answerName);
+    if ("error" in plan) return guessError(plan.error, RULE_MESSAGES[plan.error]);
+
+    correct = plan.correct;
+    guesses = [...previousGuesses, guessName];
+    await writeGuestGuesses(resolved.key, guesses);
   }
+
+  const answer = await loadPuzzleAnswer(resolved.answerName);
+
+  return {
+    ok: true,
+    correct,
+    attemptNumber: guesses.length,
+    view: buildPuzzleView(puzzle, resolved.key, answer, guesses),
+  };
 }
 
 /* -------------------------------------------------------------------------- */
-/*                                createGuess                                 */
+/*                            previewPuzzleResult                             */
 /* -------------------------------------------------------------------------- */
 /*
-  Inserts a new guess row for the current user's game.
-  Attempt number is computed as (existing guesses length + 1).
+  Admin debug tool: returns the finished view of a puzzle (as a win or a
+  loss) without saving anything. Returns null for everyone else.
+*/
+export async function previewPuzzleResult(
+  puzzle: PuzzleRef,
+  outcome: "won" | "lost",
+): Promise<PuzzleView | null> {
+  // Create server Supabase client
+  const supabase = await createClient();
 
-  Inputs:
-  - guessName: the Pokémon name guessed by the user
+  // Read current user from Supabase session
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return null;
+
+  // Check profiles table for admin flag
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("admin")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.admin) return null;
+
+  const resolved = await resolvePuzzle(puzzle);
+  if (!resolved) return null;
+
+  const answer = await loadPuzzleAnswer(resolved.answerName);
+  const current = await getPuzzleView(puzzle);
+
+  return buildPuzzleView(
+    puzzle,
+    resolved.key,
+    answer,
+    current?.guesses ?? [],
+    outcome,
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 findGame                                   */
+/* -------------------------------------------------------------------------- */
+/*
+  Internal helper that loads the current user's game for a puzzle (a day in
+  the given mode, or an unlimited seed + filters), including nested guesses.
 
   Returns:
-  - void (no explicit return value)
+  - game row with guesses, or null if not logged in / not found
 */
-export async function createGuess(guessName: string) {
+async function findGame(slot: GameSlot) {
   // Create server Supabase client
   const supabase = await createClient();
 
-  // Ensure the user has a game row for today (or create one)
-  const game = await getOrCreateGame();
+  // Read current user from Supabase session
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
 
-  // If no game exists (commonly not logged in), stop
-  if (!game) return;
+  if (!user) return null;
 
-  try {
-    // Insert a guess row into guesses table
-    await supabase.from("guesses").insert({
-      game_id: game.id, // Link guess to game
-      user_id: game.user_id, // Store user_id for easy filtering
-      guess_name: guessName, // Store guess name
-      attempt_number: game.guesses.length + 1, // Next attempt number
-    });
+  // Fetch the game row for this user and puzzle
+  // Also fetch related guesses (nested)
+  const query = supabase
+    .from("games") // Games table
+    .select("*, guesses(*)") // Include nested guesses
+    .eq("user_id", user.id) // Only this user
+    .eq("mode", slot.mode); // Live game, archive replay or unlimited
 
-    // Placeholder note:
-    // Game correctness is handled elsewhere (GameClient compares guess to pokemon)
-    // TODO: you could also validate correctness here server-side if desired
-  } catch (error) {
-    // Log server error for debugging
-    console.error("Error submitting guess:", error);
-  }
+  const { data: game } = await (slot.mode === "unlimited"
+    ? query
+        .eq("puzzle_seed", slot.seed) // Only this unlimited puzzle
+        .eq("puzzle_filters", slot.filters)
+    : query.eq("daily_pokemon_id", slot.dailyPokemonId) // Only this day
+  ).maybeSingle(); // One row or none
+
+  // Return game row (or null if not found)
+  return game;
 }
 
 /* -------------------------------------------------------------------------- */
-/*                                  endGame                                   */
+/*                                insertGame                                  */
 /* -------------------------------------------------------------------------- */
 /*
-  Marks the current user's game as finished and stores win/loss.
-
-  Inputs:
-  - won: boolean indicating whether the user won or lost
+  Internal helper that creates the current user's game for a puzzle. A
+  concurrent insert is ignored and the existing row is returned instead.
 
   Returns:
-  - void (no explicit return value)
+  - game row with guesses, or null if not logged in / creation fails
 */
-export async function endGame(won: boolean) {
+async function insertGame(slot: GameSlot) {
   // Create server Supabase client
   const supabase = await createClient();
 
-  // Ensure the user has a game row for today (or create one)
-  const game = await getOrCreateGame();
+  // Read current user from Supabase session
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
 
-  // If no game exists (commonly not logged in), stop
-  if (!game) return;
+  if (!user) return null;
 
   try {
-    // Update the game row to mark it finished
-    await supabase
+    // Insert a new game row for this user and puzzle (service role, the
+    // user comes from the session above)
+    // (ON CONFLICT DO NOTHING if another request created it first)
+    const { data } = await createAdminClient()
       .from("games") // Games table
-      .update({
-        won, // Store win/loss result
-        is_finished: true, // Mark finished
-      })
-      .eq("id", game.id); // Only update this game row
+      .upsert(
+        slot.mode === "unlimited"
+          ? {
+              user_id: user.id, // Link to user
+              mode: slot.mode, // Unlimited game
+              puzzle_seed: slot.seed, // Which puzzle
+              puzzle_filters: slot.filters, // ...with which pool
+            }
+          : {
+              user_id: user.id, // Link to user
+              daily_pokemon_id: slot.dailyPokemonId, // Link to the daily puzzle
+              mode: slot.mode, // Live game or archive replay
+            },
+        {
+          onConflict:
+            slot.mode === "unlimited"
+              ? "user_id,puzzle_seed,puzzle_filters"
+              : "user_id,daily_pokemon_id,mode",
+          ignoreDuplicates: true,
+        },
+      )
+      .select("*, guesses(*)") // Return the created row + nested guesses
+      .maybeSingle(); // No row returned when the insert was ignored
+
+    // Return created game, or the one the other request created
+    return data ?? (await findGame(slot));
   } catch (error) {
-    // Log server error for debugging
-    console.error("Error ending game:", error);
+    // Log error on server for debugging
+    console.error("Error creating game:", error);
+
+    // Return null to indicate failure
+    return null;
   }
 }
 
@@ -235,28 +508,25 @@ export async function endGame(won: boolean) {
 /*                              getOrCreateGame                               */
 /* -------------------------------------------------------------------------- */
 /*
-  Internal helper that attempts to load today's game for the current user.
-  If no game exists, it tries to create it.
+  Internal helper that attempts to load the current user's game for a
+  puzzle. If no game exists, it tries to create it.
 
   Returns:
   - game row (with guesses)
   - null if user is not logged in or game creation fails
 */
-async function getOrCreateGame() {
+async function getOrCreateGame(slot: GameSlot) {
   // First try to load existing game
-  let game: Awaited<ReturnType<typeof getUserGame>> | undefined =
-    await getUserGame();
+  let game = await findGame(slot);
 
   // If no game exists, try creating one
   if (!game) {
-    game = await createGame();
+    game = await insertGame(slot);
   }
 
   // If game still doesn't exist, stop and return null
   if (!game) {
     console.error("Game not found after creation");
-
-    // Hérna getum við gert ráð fyrir því að notandinn sé ekki skráður inn og sleppum alveg að vista guesses í gagnagrunn
     return null;
   }
 
@@ -1,3 +1,5 @@
+"use server";
+
 /* -------------------------------------------------------------------------- */
 /*                                pokemon.ts                                  */
 /* -------------------------------------------------------------------------- */
@@ -7,78 +9,72 @@
   Current responsibility:
   - searchPokemon(query): returns a filtered list of Pokémon names
     based on a text query.
+  - canonicalizePokemonName(name): validates a name against the same
+    catalog and returns its canonical form (or null if unknown).
 
   Uses:
-  - pokedex-promise-v2 library to fetch the full Pokémon list
-  - In-memory caching to avoid repeated API calls
+  - The offline Pokémon catalog (lib/pokemon/catalog), so no request
+    ever reaches PokéAPI
 */
 
-import Pokedex from "pokedex-promise-v2"; // Wrapper around PokeAPI
-
-// Create a single Pokedex instance for API calls
-const P = new Pokedex();
-
-/* -------------------------------------------------------------------------- */
-/*                           In-Memory Pokémon Cache                          */
-/* -------------------------------------------------------------------------- */
-/*
-  cachedPokemonList stores the full Pokémon list after the first fetch.
-
-  Structure:
-  [
-    { name: string; url: string },
-    ...
-  ]
-
-  Purpose:
-  - Avoids calling PokeAPI on every search
-  - Improves performance significantly
-*/
-let cachedPokemonList: { name: string; url: string }[] | null = null;
+import { resolveGuessName } from "@/lib/pokemon/pools"; // Answer/guessable pool rules
+import { searchPokemonIndex } from "@/lib/pokemon/search"; // Ranked name search
 
 /* -------------------------------------------------------------------------- */
 /*                               searchPokemon                                */
 /* -------------------------------------------------------------------------- */
 /*
-  Searches Pokémon by name using a simple "includes" match.
+  Searches Pokémon by name using the ranked search index
+  (lib/pokemon/search): punctuation/accent-insensitive, prefix matches
+  first, small typos tolerated.
 
   Input:
   - query: string typed by the user
 
   Returns:
-  - Array of up to 10 Pokémon objects:
-      { name: string; url: string }
+  - Array of up to 10 Pokémon objects, best match first:
+      { name: string; displayName: string }
 
   Behavior:
   - If query is empty → returns []
-  - If cache is empty → fetches full list from API
-  - Filters locally in memory
 */
 export async function searchPokemon(query: string) {
   /* ------------------------- Guard: Empty Query --------------------------- */
   // If user input is empty or whitespace, return empty results
   if (!query.trim()) return [];
 
-  /* ---------------------- Load Pokémon List (Cached) ---------------------- */
-  // Only fetch full list from API if not already cached
-  if (!cachedPokemonList) {
-    const res = await P.getPokemonsList({
-      limit: 100000, // Large limit to future-proof if more Pokémon are added
-      offset: 0, // Start from first Pokémon
-    });
+  /* ---------------------------- Ranked Search ----------------------------- */
+  return searchPokemonIndex(query, 10);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                          canonicalizePokemonName                           */
+/* -------------------------------------------------------------------------- */
+/*
+  Validates a guessed name against the Pokémon catalog and returns the
+  canonical name answers are stored under (the species' default form).
 
-    // Store results in memory for future searches
-    cachedPokemonList = res.results;
-  }
+  Normalization (normalizeGuessName in lib/pokemon/pools):
+  - Case, accents and surrounding whitespace are ignored
+  - Spaces/underscores become hyphens ("mr mime" -> "mr-mime")
+  - Periods become hyphens ("Mr.Mime" -> "mr-mime", "Mime Jr." -> "mime-jr")
+  - Colons and apostrophes are dropped ("Type: Null" -> "type-null",
+    "farfetch'd" -> "farfetchd")
+  - Gender symbols become suffixes ("nidoran♀" -> "nidoran-f")
+  - Names that still don't match are compared to the catalog's slugs with
+    hyphens ignored ("mrmime" -> "mr-mime")
 
-  /* -------------------------- Filtering Logic ---------------------------- */
-  // Normalize query to lowercase for case-insensitive matching
-  const lower = query.toLowerCase();
+  Forms (see POOL_CONFIG in lib/pokemon/pools):
+  - A species name resolves to its default form ("deoxys" -> "deoxys-normal")
+  - Megas, Gigantamax, totem and cosmetic forms resolve to their species'
+    default form ("charizard-mega-x" -> "charizard")
+  - Regional forms do too, unless they are configured as separate Pokémon
 
-  // Filter cached list:
-  // - Check if Pokémon name includes query string
-  // - Limit results to first 10 matches
-  return cachedPokemonList
-    .filter((pokemon) => pokemon.name.includes(lower))
-    .slice(0, 10);
+  Returns:
+  - canonical Pokémon name, or null if the name is not in the catalog
+*/
+export async function canonicalizePokemonName(
+  name: string,
+): Promise<string | null> {
+  return resolveGuessName(name);
 }
@@ -10,103 +10,269 @@
   - totalGames: total number of games rows for the user
   - totalWins: number of games where won === true
   - currentStreak: current consecutive-day win streak up to the latest recorded day
+    (0 once a day is missed: the latest day must be the player's today or
+    yesterday, in their timezone)
   - bestStreak: best consecutive-day win streak found across all recorded days
 
   Tables used (Supabase):
-  - games (won, daily_pokemon_id)
-  - daily_pokemon (available_on) joined via daily_pokemon_id
+  - games (won, daily_pokemon_id, imported)
+  - daily_pokemon (available_on, track) joined via daily_pokemon_id
+  - guesses (carried over by transferLocalStatsToUser)
+
+  Unlimited games (mode = "unlimited") have their own stats and never count
+  towards the daily stats:
+  - getUnlimitedGames(): the user's finished unlimited games
+  - getUnlimitedStats(): games, wins, average attempts, survival streak
 
   For unsigned users:
   - Stats are calculated from localStorage directly on the client
 */
 
 import { createClient } from "@/lib/supabase/server"; // Server Supabase client (session/cookies aware)
+import { createAdminClient } from "@/lib/supabase/admin"; // Service role (imported game writes)
+import { isClockSimulated } from "@/lib/clock"; // QA clock (nothing saved)
+import { LocalGamesTransferSchema } from "@/lib/schemas"; // Transfer payload validation
+import {
+  getUnlimitedPokemonName,
+  replayGuesses,
+} from "@/lib/puzzle"; // Guess replay + unlimited answers
+import { DEFAULT_TRACK, type DailyTrack } from "@/lib/tracks"; // Daily tracks
+import { parseUnlimitedFilters } from "@/lib/unlimitedFilters"; // Stored filters -> pool
+import {
+  calculateUnlimitedStats,
+  type UnlimitedGameRecord,
+  type UnlimitedStats,
+} from "@/lib/unlimitedStats"; // Unlimited stats
+import { getPlayerToday } from "@/lib/playerTimeZone"; // Player's day
+import { previousDate } from "@/lib/timezone"; // Date helpers
 
 // Type for local game record (from cookieStats)
 export type LocalGameRecord = {
   date: string;
   won: boolean;
   guesses: number;
+  guessNames?: string[];
   pokemonName: string;
   isFinished?: boolean;
+  track?: DailyTrack;
+};
+
+// Outcome of a transfer; the browser only drops the local records listed
+// in imported (the rest are kept for a later try)
+export type TransferResult = {
+  inserted: number; // Games created by this transfer
+  skipped: number; // Records not imported
+  imported: { date: string; track: DailyTrack }[]; // Records the account now holds
 };
 
 /**
  * Transfer local stats to the signed-in user's database account.
- * Only inserts games for days not already present in the database.
+ *
+ * The browser payload is not trusted:
+ * - It is validated with zod (dates, tracks, guess names, record count)
+ * - Only dates that exist in daily_pokemon and are not in the future count
+ * - Guesses are canonicalized and replayed against the day's answer, so the
+ *   result is decided here, not by the browser (records without guesses
+ *   cannot be verified and are skipped)
+ * - Days already present in the database are left alone (and reported as
+ *   imported, since the account already holds them)
+ * - If the guesses cannot be saved, the games created for them are removed
+ *   again, so no game is left without its guesses
+ *
+ * Imported games (and their guesses) are stored with imported = true, by
+ * the service role: games and guesses are read-only for players, so the
+ * flag and the checks above cannot be skipped by writing rows directly.
+ * Past answers are public, so a replayed win is not proof of play; the
+ * flag lets stats and leaderboards treat imported games apart.
  */
-export async function transferLocalStatsToUser(localGames: LocalGameRecord[]): Promise<{ inserted: number }> {
-  console.log('[Server] transferLocalStatsToUser called with', localGames.length, 'games');
-  
+export async function transferLocalStatsToUser(
+  localGames: unknown,
+): Promise<TransferResult> {
+  /* ----------------------------- Validate Payload --------------------------- */
+
+  const parsed = LocalGamesTransferSchema.safeParse(localGames);
+
+  if (!parsed.success) {
+    console.log('[Server] Invalid transfer payload:', parsed.error.issues);
+    return { inserted: 0, skipped: 0, imported: [] };
+  }
+
+  console.log('[Server] transferLocalStatsToUser called with', parsed.data.length, 'games');
+
   const supabase = await createClient();
   const {
     data: { user },
   } = await supabase.auth.getUser();
-  
+
   if (!user) {
     console.log('[Server] No user found - returning 0');
-    return { inserted: 0 };
+    return { inserted: 0, skipped: 0, imported: [] };
   }
-  
+
+  // Nothing is saved on a simulated clock (QA)
+  if (await isClockSimulated()) {
+    return { inserted: 0, skipped: parsed.data.length, imported: [] };
+  }
+
   console.log('[Server] User authenticated:', user.id);
 
+  /* ------------------------------ Usable Records ---------------------------- */
+
+  // No future days (in the player's timezone), and one record per date and
+  // track (last one wins)
+  const todayIso = await getPlayerToday();
+  const recordsByDay = new Map(
+    parsed.data
+      .filter((g) => g.date <= todayIso && g.guessNames.length > 0)
+      .map((g) => [`${g.track}:${g.date}`, g]),
+  );
+
   // Get all daily_pokemon rows for the provided dates
-  const dates = localGames.map(g => g.date);
+  const dates = Array.from(
+    new Set(Array.from(recordsByDay.values(), (g) => g.date)),
+  );
   console.log('[Server] Looking up dates:', dates);
-  
+
+  if (dates.length === 0) {
+    return { inserted: 0, skipped: parsed.data.length, imported: [] };
+  }
+
   const { data: dailyRows } = await supabase
     .from("daily_pokemon")
-    .select("id, available_on")
+    .select("id, available_on, pokemon_name, track")
     .in("available_on", dates);
-    
+
   if (!dailyRows) {
     console.log('[Server] No daily_pokemon rows found');
-    return { inserted: 0 };
+    return { inserted: 0, skipped: parsed.data.length, imported: [] };
   }
-  
-  console.log('[Server] Found', dailyRows.length, 'daily_pokemon records');
 
-  // Map date to daily_pokemon_id
-  const dateToId = Object.fromEntries(dailyRows.map(row => [row.available_on, row.id]));
+  console.log('[Server] Found', dailyRows.length, 'daily_pokemon records');
 
   // Get all user's games for these days
   const { data: userGames } = await supabase
     .from("games")
     .select("id, daily_pokemon_id")
     .eq("user_id", user.id)
-    .in("daily_pokemon_id", Object.values(dateToId));
-    
+    .eq("mode", "daily") // Archive replays don't block importing a day
+    .in("daily_pokemon_id", dailyRows.map((row) => row.id));
+
   const existingDayIds = new Set((userGames || []).map(g => g.daily_pokemon_id));
   console.log('[Server] User already has', existingDayIds.size, 'existing games');
 
-  // Prepare new games to insert
-  const newGames = localGames
-    .filter(g => {
-      const dayId = dateToId[g.date];
-      return dayId && !existingDayIds.has(dayId);
-    })
-    .map(g => ({
-      user_id: user.id,
-      daily_pokemon_id: dateToId[g.date],
-      won: g.won,
-      is_finished: g.isFinished ?? true,
-    }));
-
-  console.log('[Server] Prepared', newGames.length, 'new games to insert');
+  // Sent records the account holds (already there, or created below)
+  const heldDayIds = new Set<string>();
+
+  /* --------------------------- Replay Guesses ------------------------------- */
+
+  const verifiedGames: {
+    dailyPokemonId: string;
+    guessNames: string[];
+    won: boolean;
+    isFinished: boolean;
+  }[] = [];
+
+  for (const day of dailyRows) {
+    const record = recordsByDay.get(`${day.track}:${day.available_on}`);
+    if (!record) continue;
+
+    if (existingDayIds.has(day.id)) {
+      heldDayIds.add(day.id);
+      continue;
+    }
+
+    // Canonical, unique guesses; anything unknown makes the record unverifiable
+    const replay = replayGuesses(record.guessNames, day.pokemon_name);
+    if (!replay) continue;
+
+    verifiedGames.push({ dailyPokemonId: day.id, ...replay });
+  }
+
+  console.log('[Server] Prepared', verifiedGames.length, 'verified games to insert');
+
+  /* ------------------------------- Insert Rows ------------------------------ */
+  /*
+    Days that got a game in the meantime (e.g. another tab) are skipped by
+    the unique (user, day, mode) key instead of failing the whole batch.
+  */
 
   let inserted = 0;
-  if (newGames.length > 0) {
-    const { error } = await supabase.from("games").insert(newGames);
-    if (!error) {
-      inserted = newGames.length;
-      console.log('[Server] Successfully inserted', inserted, 'games');
-    } else {
+
+  if (verifiedGames.length > 0) {
+    const admin = createAdminClient();
+
+    const { data: createdGames, error } = await admin
+      .from("games")
+      .upsert(
+        verifiedGames.map((game) => ({
+          user_id: user.id,
+          daily_pokemon_id: game.dailyPokemonId,
+          mode: "daily" as const,
+          won: game.won,
+          is_finished: game.isFinished,
+          imported: true,
+        })),
+        { onConflict: "user_id,daily_pokemon_id,mode", ignoreDuplicates: true },
+      )
+      .select("id, daily_pokemon_id");
+
+    if (error || !createdGames) {
       console.error('[Server] Error inserting games:', error);
+    } else {
+      // Carry over the guesses for every created game
+      const gameIdByDay = new Map(
+        createdGames.map((game) => [game.daily_pokemon_id, game.id]),
+      );
+
+      const guessRows = verifiedGames
+        .filter((game) => gameIdByDay.has(game.dailyPokemonId))
+        .flatMap((game) =>
+          game.guessNames.map((guessName, index) => ({
+            game_id: gameIdByDay.get(game.dailyPokemonId)!,
+            user_id: user.id,
+            guess_name: guessName,
+            attempt_number: index + 1,
+          })),
+        );
+
+      const { error: guessesError } = guessRows.length > 0
+        ? await admin.from("guesses").insert(guessRows)
+        : { error: null };
+
+      if (guessesError) {
+        console.error('[Server] Error inserting guesses:', guessesError);
+
+        // Skipped days were created elsewhere in the meantime and stay
+        verifiedGames
+          .filter((game) => !gameIdByDay.has(game.dailyPokemonId))
+          .forEach((game) => heldDayIds.add(game.dailyPokemonId));
+
+        // No game without its guesses: remove the games created above
+        const { error: cleanupError } = await admin
+          .from("games")
+          .delete()
+          .in("id", createdGames.map((game) => game.id));
+
+        if (cleanupError) {
+          console.error('[Server] Error removing games without guesses:', cleanupError);
+        }
+      } else {
+        verifiedGames.forEach((game) => heldDayIds.add(game.dailyPokemonId));
+        inserted = createdGames.length;
+        console.log('[Server] Successfully inserted', inserted, 'games');
+      }
     }
   }
-  
-  console.log('[Server] Returning result:', { inserted });
-  return { inserted };
+
+  const result = {
+    inserted,
+    skipped: parsed.data.length - inserted,
+    imported: dailyRows
+      .filter((day) => heldDayIds.has(day.id))
+      .map((day) => ({ date: day.available_on, track: day.track as DailyTrack })),
+  };
+  console.log('[Server] Returning result:', result);
+  return result;
 }
 
 /* -------------------------------------------------------------------------- */
@@ -149,13 +315,16 @@ function toUtcDayNumber(dateString: string) {
 /*                               getUserStats                                 */
 /* -------------------------------------------------------------------------- */
 /*
-  Loads all games for the logged-in user and computes stats.
+  Loads all games of a daily track for the logged-in user and computes
+  stats (every track has its own stats and streak).
 
   Returns:
   - UserStats if logged in and data exists
   - null if not logged in or query returns no data
 */
-export async function getUserStats(): Promise<UserStats | null> {
+export async function getUserStats(
+  track: DailyTrack = DEFAULT_TRACK,
+): Promise<UserStats | null> {
   /* -------------------------- Supabase: Auth User -------------------------- */
 
   // Create server Supabase client
@@ -171,14 +340,19 @@ export async function getUserStats(): Promise<UserStats | null> {
 
   /* ---------------------------- Load Game Records -------------------------- */
 
-  // Fetch user's games and join daily_pokemon to get the date (available_on)
-  const { data } = await supabase
+  // Fetch user's live daily games and join daily_pokemon to get the date
+  // (archive replays never count towards stats or streaks)
+  const { data: rows } = await supabase
     .from("games")
-    .select("won, daily_pokemon:daily_pokemon_id(available_on)")
-    .eq("user_id", user.id);
+    .select("won, daily_pokemon:daily_pokemon_id(available_on, track)")
+    .eq("user_id", user.id)
+    .eq("mode", "daily");
 
   // If no data returned, stop
-  if (!data) return null;
+  if (!rows) return null;
+
+  // Only this track's games count
+  const data = rows.filter((row) => row.daily_pokemon?.track === track);
 
   /* ----------------------- Reduce Games Into Per-Day Map ------------------- */
   /*
@@ -273,6 +447,14 @@ export async function getUserStats(): Promise<UserStats | null> {
     }
   });
 
+  // A missed day ends the current streak (today may still be unplayed)
+  const today = await getPlayerToday();
+  const lastDate = dates.at(-1)?.[0];
+
+  if (lastDate && lastDate < previousDate(today)) {
+    currentStreak = 0;
+  }
+
   /* -------------------------- Totals (Games/Wins) -------------------------- */
 
   // Total games is the number of rows returned from games table
@@ -290,3 +472,101 @@ export async function getUserStats(): Promise<UserStats | null> {
     bestStreak,
   };
 }
+
+/* -------------------------------------------------------------------------- */
+/*                             getUnlimitedGames                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Loads the logged-in user's finished unlimited games in play order (oldest
+  first), with the attempts used and the answer of each game.
+
+  Inputs:
+  - limit: only the most recent games (all games when omitted)
+
+  Returns:
+  - finished games, or null if not logged in or the query fails
+*/
+export async function getUnlimitedGames(
+  limit?: number,
+): Promise<UnlimitedGameRecord[] | null> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return null;
+
+  // Newest first so a limit keeps the latest games
+  let query = supabase
+    .from("games")
+    .select("puzzle_seed, puzzle_filters, won, created_at, guesses(attempt_number)")
+    .eq("user_id", user.id)
+    .eq("mode", "unlimited")
+    .eq("is_finished", true)
+    .order("created_at", { ascending: false });
+
+  if (limit) query = query.limit(limit);
+
+  const { data: rows, error } = await query;
+
+  if (error || !rows) return null;
+
+  const games: UnlimitedGameRecord[] = [];
+
+  for (const row of rows.toReversed()) {
+    if (!row.puzzle_seed || row.puzzle_filters === null) continue;
+
+    // The answer is derived from the seed and filters (finished games only)
+    const filters = parseUnlimitedFilters(new URLSearchParams(row.puzzle_filters));
+    const pokemonName = await getUnlimitedPokemonName(row.puzzle_seed, filters);
+
+    games.push({
+      seed: row.puzzle_seed,
+      filters: row.puzzle_filters,
+      won: row.won === true,
+      attempts: row.guesses.length,
+      pokemonName: pokemonName ?? "",
+      playedAt: row.created_at ?? "", // Started at (play order)
+    });
+  }
+
+  return games;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             getUnlimitedStats                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Stats of the logged-in user's unlimited games (see lib/unlimitedStats).
+
+  Returns:
+  - UnlimitedStats, or null if not logged in or the query fails
+*/
+export async function getUnlimitedStats(): Promise<UnlimitedStats | null> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return null;
+
+  // Only the results are needed (no answers)
+  const { data: rows, error } = await supabase
+    .from("games")
+    .select("won, guesses(attempt_number)")
+    .eq("user_id", user.id)
+    .eq("mode", "unlimited")
+    .eq("is_finished", true)
+    .order("created_at", { ascending: true });
+
+  if (error || !rows) return null;
+
+  return calculateUnlimitedStats(
+    rows.map((row) => ({
+      won: row.won === true,
+      attempts: row.guesses.length,
+    })),
+  );
+}
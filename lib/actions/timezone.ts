@@ -0,0 +1,55 @@
+"use server";
+
+/* -------------------------------------------------------------------------- */
+/*                                 timezone.ts                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Server Action for the player's timezone (which daily puzzle is "today").
+
+  Exported functions:
+  - saveTimeZone(timeZone): validates and stores the player's zone (on
+    the profile when signed in, and in this browser's cookie)
+*/
+
+import { effectiveTimeZone, isTimeZone } from "@/lib/timezone"; // Validation + day rollover
+import { writeTimeZoneSetting } from "@/lib/playerTimeZone"; // Setting storage
+import { getNow, isClockSimulated } from "@/lib/clock"; // Current time
+
+// Result of saving a zone (rendered by the timezone picker)
+export type SaveTimeZoneResult =
+  | { ok: true; timeZone: string; pending: boolean }
+  | { ok: false; error: string };
+
+/* -------------------------------------------------------------------------- */
+/*                                saveTimeZone                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Returns:
+  - pending: true while the previous zone still decides "today" (the new
+    zone takes over once both show the same date)
+*/
+export async function saveTimeZone(
+  timeZone: unknown,
+): Promise<SaveTimeZoneResult> {
+  if (!isTimeZone(timeZone)) {
+    return { ok: false, error: "Unknown timezone." };
+  }
+
+  // A change made at a simulated time would hold the wrong day (QA)
+  if (await isClockSimulated()) {
+    return { ok: false, error: "The timezone can't be changed while the clock is simulated." };
+  }
+
+  try {
+    const setting = await writeTimeZoneSetting(timeZone);
+
+    return {
+      ok: true,
+      timeZone: setting.timeZone,
+      pending: effectiveTimeZone(setting, await getNow()) !== setting.timeZone,
+    };
+  } catch (error) {
+    console.error("Error saving timezone:", error);
+    return { ok: false, error: "Could not save timezone." };
+  }
+}
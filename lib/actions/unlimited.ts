@@ -0,0 +1,58 @@
+"use server";
+
+/* -------------------------------------------------------------------------- */
+/*                                unlimited.ts                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Server Actions for the unlimited pool filters.
+
+  Exported functions:
+  - countUnlimitedPool(filters): how many Pokémon match (live preview)
+  - saveUnlimitedFilters(filters): validates and stores the player's filters
+    (rejected if nothing matches, so a puzzle can always be drawn)
+*/
+
+import { listFilteredAnswerPool } from "@/lib/pokemon/pools"; // Filtered answers
+import { UnlimitedFiltersSchema } from "@/lib/schemas"; // Untrusted input
+import { writeSavedUnlimitedFilters } from "@/lib/unlimitedPreferences"; // Cookie preference
+
+// Result of saving filters (rendered by the filter panel)
+export type SaveFiltersResult =
+  | { ok: true; poolSize: number }
+  | { ok: false; error: string };
+
+/* -------------------------------------------------------------------------- */
+/*                             countUnlimitedPool                             */
+/* -------------------------------------------------------------------------- */
+/*
+  Returns:
+  - number of Pokémon matching the filters (0 for invalid filters)
+*/
+export async function countUnlimitedPool(filters: unknown): Promise<number> {
+  const parsed = UnlimitedFiltersSchema.safeParse(filters);
+  if (!parsed.success) return 0;
+
+  return listFilteredAnswerPool(parsed.data).length;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                            saveUnlimitedFilters                            */
+/* -------------------------------------------------------------------------- */
+export async function saveUnlimitedFilters(
+  filters: unknown,
+): Promise<SaveFiltersResult> {
+  const parsed = UnlimitedFiltersSchema.safeParse(filters);
+
+  if (!parsed.success) {
+    return { ok: false, error: "Invalid filters." };
+  }
+
+  const poolSize = listFilteredAnswerPool(parsed.data).length;
+
+  if (poolSize === 0) {
+    return { ok: false, error: "No Pokémon match these filters." };
+  }
+
+  await writeSavedUnlimitedFilters(parsed.data);
+  return { ok: true, poolSize };
+}
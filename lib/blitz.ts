@@ -0,0 +1,238 @@
+/* -------------------------------------------------------------------------- */
+/*                                  blitz.ts                                  */
+/* -------------------------------------------------------------------------- */
+/*
+  Timed blitz mode: solve as many random Pokémon as possible before the
+  clock runs out, with BLITZ_ATTEMPTS guesses per round.
+
+  The clock only exists on the server. A run stores when it started, when
+  it ends and when the current round started, all taken from the server's
+  clock. Every guess is timed when it reaches the server and checked
+  against those timestamps, so pausing or fiddling with the browser does
+  not buy extra time. The browser only gets the remaining time to display.
+
+  Like unlimited puzzles, the answer of each round is derived from the run
+  id with an HMAC keyed by PUZZLE_SECRET, so nothing secret is stored with
+  the run. This module returns answers: only import it from server code
+  (lib/actions/blitz returns redacted views only).
+
+  Exports:
+  - BLITZ_DURATION_MS: time budget of a run
+  - BlitzRun: stored state of a run (database row or guest cookie)
+  - BlitzView: redacted run state rendered by BlitzClient
+  - BlitzRuleError: why a guess breaks the rules (clock, repeats)
+  - BlitzGuessOutcome: next state after an accepted guess
+  - newBlitzRun(id, now): a run starting now
+  - checkBlitzClock(run, now): whether a guess at `now` is on time
+  - applyBlitzGuess(run, guessName, now): next run state after a guess
+  - buildBlitzView(run, now): redacts a run for the client
+*/
+
+import { createHmac } from "crypto"; // Answer derivation
+import {
+  buildPuzzleView,
+  isSameName,
+  loadPuzzleAnswer,
+  maxAttemptsFor,
+  type PuzzleRef,
+  type PuzzleView,
+} from "@/lib/puzzle"; // Rounds are regular puzzles
+import { listAnswerPool } from "@/lib/pokemon/pools"; // Pokémon that can be answers
+
+// Time budget of a run (3 minutes)
+export const BLITZ_DURATION_MS = 3 * 60 * 1000;
+
+// A guess sent just before the buzzer may reach the server a moment later
+const BLITZ_GRACE_MS = 2000;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+// Stored state of a run (timestamps are server time in ms)
+export type BlitzRun = {
+  id: string; // Opaque run id (answers are derived from it)
+  startedAt: number; // When the run started
+  endsAt: number; // startedAt + BLITZ_DURATION_MS
+  score: number; // Rounds solved
+  round: number; // Current round (1-based)
+  roundStartedAt: number; // When the current round started
+  guesses: string[]; // Guesses in the current round
+};
+
+// Redacted run state sent to the browser
+export type BlitzView = {
+  runId: string;
+  durationMs: number; // Time budget of the run
+  remainingMs: number; // Time left when the view was built (0 once over)
+  isOver: boolean; // Time is up
+  score: number; // Rounds solved
+  round: number; // Current round
+  current: PuzzleView | null; // Current round (null once the run is over)
+};
+
+// Rule checks a blitz guess can fail
+export type BlitzRuleError =
+  | "TIME_UP" // The run is over
+  | "CLOCK_MISMATCH" // Timestamps out of order (tampered or broken state)
+  | "DUPLICATE_GUESS"; // Already guessed in this round
+
+// Next state after an accepted guess
+export type BlitzGuessOutcome = {
+  run: BlitzRun; // Updated run (next round if this one is decided)
+  correct: boolean; // Whether the guess solved the round
+  finishedRound: PuzzleView | null; // Decided round, answer revealed
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  Helpers                                   */
+/* -------------------------------------------------------------------------- */
+
+// Puzzle reference of a round
+function roundPuzzle(runId: string, round: number): PuzzleRef {
+  return { kind: "blitz", runId, round };
+}
+
+// Stable key of a round (hints picked per puzzle use it)
+function roundKey(runId: string, round: number) {
+  return `blitz:${runId}:${round}`;
+}
+
+// Answer of a round: the digest of run id + round mapped onto the pool
+function getBlitzPokemonName(runId: string, round: number) {
+  const digest = createHmac("sha256", process.env.PUZZLE_SECRET!)
+    .update(roundKey(runId, round))
+    .digest();
+
+  const pool = listAnswerPool();
+  return pool[digest.readUInt32BE(0) % pool.length];
+}
+
+// Redacted view of a round for the given guesses
+async function buildRoundView(runId: string, round: number, guesses: string[]) {
+  const answer = await loadPuzzleAnswer(getBlitzPokemonName(runId, round));
+  return buildPuzzleView(
+    roundPuzzle(runId, round),
+    roundKey(runId, round),
+    answer,
+    guesses,
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                newBlitzRun                                 */
+/* -------------------------------------------------------------------------- */
+export function newBlitzRun(id: string, now: number): BlitzRun {
+  return {
+    id,
+    startedAt: now,
+    endsAt: now + BLITZ_DURATION_MS,
+    score: 0,
+    round: 1,
+    roundStartedAt: now,
+    guesses: [],
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              checkBlitzClock                               */
+/* -------------------------------------------------------------------------- */
+/*
+  Checks the timestamps of a guess arriving at `now` (server time):
+  - the round started inside the run
+  - the guess comes after the round started
+  - the guess comes before the run ended (plus a short grace period for
+    requests in flight)
+
+  Returns:
+  - error code, or null if the guess is on time
+*/
+export function checkBlitzClock(
+  run: BlitzRun,
+  now: number,
+): BlitzRuleError | null {
+  if (now > run.endsAt + BLITZ_GRACE_MS) return "TIME_UP";
+
+  if (
+    run.endsAt - run.startedAt !== BLITZ_DURATION_MS ||
+    run.roundStartedAt < run.startedAt ||
+    run.roundStartedAt > run.endsAt ||
+    now < run.roundStartedAt
+  ) {
+    return "CLOCK_MISMATCH";
+  }
+
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              applyBlitzGuess                               */
+/* -------------------------------------------------------------------------- */
+/*
+  Applies a (canonical, catalog-checked) guess to the current round.
+
+  A round is decided by a correct guess or when its attempts run out; the
+  next round then starts at `now` (at most the end of the run). Only
+  solved rounds score.
+
+  Returns:
+  - BlitzGuessOutcome, or an error code if the guess is rejected
+*/
+export async function applyBlitzGuess(
+  run: BlitzRun,
+  guessName: string,
+  now: number,
+): Promise<BlitzGuessOutcome | { error: BlitzRuleError }> {
+  const clockError = checkBlitzClock(run, now);
+  if (clockError) return { error: clockError };
+
+  if (run.guesses.some((guess) => isSameName(guess, guessName))) {
+    return { error: "DUPLICATE_GUESS" };
+  }
+
+  const guesses = [...run.guesses, guessName];
+  const correct = isSameName(
+    guessName,
+    getBlitzPokemonName(run.id, run.round),
+  );
+  const puzzle = roundPuzzle(run.id, run.round);
+
+  // Round still open: just record the guess
+  if (!correct && guesses.length < maxAttemptsFor(puzzle)) {
+    return { run: { ...run, guesses }, correct, finishedRound: null };
+  }
+
+  return {
+    run: {
+      ...run,
+      score: run.score + (correct ? 1 : 0),
+      round: run.round + 1,
+      roundStartedAt: Math.min(now, run.endsAt), // Within the grace period
+      guesses: [],
+    },
+    correct,
+    finishedRound: await buildRoundView(run.id, run.round, guesses),
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               buildBlitzView                               */
+/* -------------------------------------------------------------------------- */
+export async function buildBlitzView(
+  run: BlitzRun,
+  now: number,
+): Promise<BlitzView> {
+  const isOver = now >= run.endsAt;
+
+  return {
+    runId: run.id,
+    durationMs: BLITZ_DURATION_MS,
+    remainingMs: Math.max(0, run.endsAt - now),
+    isOver,
+    score: run.score,
+    round: run.round,
+    current: isOver
+      ? null
+      : await buildRoundView(run.id, run.round, run.guesses),
+  };
+}
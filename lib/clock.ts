@@ -0,0 +1,142 @@
+/* -------------------------------------------------------------------------- */
+/*                                  clock.ts                                  */
+/* -------------------------------------------------------------------------- */
+/*
+  The server's clock: every "what time is it" that decides which day it is
+  (today's puzzle, history, streaks, the cooldown, the seed horizon) reads
+  the time from here.
+
+  For QA the clock can be moved to a simulated time, so midnight rollover,
+  streak breaks and the end of the schedule can be tried without waiting
+  for real days. Simulated time keeps running from the chosen moment (the
+  clock is shifted, not frozen):
+  - SIMULATED_NOW env var (ISO date-time, e.g. "2026-12-31T23:59:00Z"):
+    the clock starts there when the server (or script) starts. Ignored in
+    production builds, meant for local dev
+  - the clock cookie: set by an admin through lib/actions/clock for their
+    own browser only. Signed with PUZZLE_SECRET, so players cannot forge it
+
+  Durations (the blitz timer) keep using real time; only dates move.
+
+  Nothing date-based is saved while the clock is simulated: unscheduled
+  days get an unsaved fallback pick, games (daily, archive and unlimited)
+  stay in the guest progress cookie, local stats are not imported and the
+  timezone cannot be changed. So QA never writes puzzles, alerts or games
+  for days that have not happened yet.
+
+  Server-only (reads cookies, signs with the puzzle secret).
+
+  Exports:
+  - ClockState: current offset and where it comes from
+  - envNow(): current time with only the env override (scripts)
+  - readClock(): current offset for this request
+  - getNow(): current time (ms) for this request
+  - isClockSimulated(): whether this request runs on a simulated clock
+  - writeSimulatedNow(at): moves this browser's clock to a time, or back
+    to real time with null (only callable from Server Actions)
+*/
+
+import { cookies } from "next/headers"; // Request cookies (server-only)
+import { decodeSigned, encodeSigned } from "@/lib/signedCookie"; // Cookie signing
+
+const COOKIE_NAME = "pokedexdle_clock";
+const COOKIE_PREFIX = "clock:"; // Own signature: not valid as any other cookie
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export type ClockState = {
+  offsetMs: number; // Simulated time minus real time (0 = real time)
+  source: "cookie" | "env" | null; // Where the simulated time comes from
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                Env Override                                */
+/* -------------------------------------------------------------------------- */
+
+// Offset from SIMULATED_NOW, fixed when this module is loaded
+const ENV_OFFSET_MS = (() => {
+  const value = process.env.SIMULATED_NOW;
+  if (!value || process.env.NODE_ENV === "production") return 0;
+
+  const at = Date.parse(value);
+  if (Number.isNaN(at)) {
+    console.error(`Ignoring SIMULATED_NOW: "${value}" is not a date.`);
+    return 0;
+  }
+
+  return at - Date.now();
+})();
+
+export function envNow() {
+  return Date.now() + ENV_OFFSET_MS;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Cookie Override                              */
+/* -------------------------------------------------------------------------- */
+
+// Offset stored in the cookie (null if missing, tampered or malformed)
+async function readCookieOffset(): Promise<number | null> {
+  const cookieStore = await cookies();
+  const raw = cookieStore.get(COOKIE_NAME)?.value;
+
+  if (!raw) return null;
+
+  const offsetMs = decodeSigned(raw, COOKIE_PREFIX);
+  return Number.isSafeInteger(offsetMs) ? (offsetMs as number) : null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 readClock                                  */
+/* -------------------------------------------------------------------------- */
+/*
+  The admin's cookie wins over the env var.
+*/
+export async function readClock(): Promise<ClockState> {
+  const cookieOffset = await readCookieOffset();
+  if (cookieOffset !== null) return { offsetMs: cookieOffset, source: "cookie" };
+
+  if (ENV_OFFSET_MS !== 0) return { offsetMs: ENV_OFFSET_MS, source: "env" };
+
+  return { offsetMs: 0, source: null };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   getNow                                   */
+/* -------------------------------------------------------------------------- */
+export async function getNow() {
+  const { offsetMs } = await readClock();
+  return Date.now() + offsetMs;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              isClockSimulated                              */
+/* -------------------------------------------------------------------------- */
+export async function isClockSimulated() {
+  const { source } = await readClock();
+  return source !== null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             writeSimulatedNow                              */
+/* -------------------------------------------------------------------------- */
+export async function writeSimulatedNow(at: number | null) {
+  const cookieStore = await cookies();
+
+  if (at === null) {
+    cookieStore.delete(COOKIE_NAME);
+    return;
+  }
+
+  const offsetMs = Math.round(at - Date.now());
+
+  cookieStore.set(COOKIE_NAME, encodeSigned(offsetMs, COOKIE_PREFIX), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: 60 * 60 * 24, // One day (QA sessions only)
+  });
+}
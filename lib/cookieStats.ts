@@ -3,14 +3,32 @@
  * 
  * Since cookies are better for persistence across browser sessions,
  * we use localStorage which provides a similar API and persists data.
+ *
+ * Every daily track keeps its own records and stats (one record per date
+ * per track). Unlimited games are kept in a separate list with their own
+ * stats (see lib/unlimitedStats).
+ *
+ * "Today" is the player's date in their timezone (lib/timezone), passed in
+ * by the page, since the browser's own clock zone may differ from the
+ * chosen one.
  */
 
+import { DEFAULT_TRACK, type DailyTrack } from "@/lib/tracks";
+import {
+  calculateUnlimitedStats,
+  type UnlimitedGameRecord,
+  type UnlimitedStats,
+} from "@/lib/unlimitedStats";
+import { previousDate } from "@/lib/timezone";
+
 export type GameRecord = {
   date: string; // YYYY-MM-DD
   won: boolean;
   guesses: number; // number of attempts
+  guessNames?: string[]; // guessed names in attempt order (used when transferring to an account)
   pokemonName: string; // the correct answer
   isFinished?: boolean; // whether the game is complete
+  track?: DailyTrack; // daily track (missing on records saved before tracks = classic)
 };
 
 export type UnsignedUserStats = {
@@ -30,6 +48,14 @@ export type ClientStats = {
 };
 
 const STORAGE_KEY = "pokedexdle_unsigned_stats";
+const UNLIMITED_STORAGE_KEY = "pokedexdle_unsigned_unlimited";
+
+/**
+ * Track a record belongs to
+ */
+export function getRecordTrack(record: GameRecord): DailyTrack {
+  return record.track ?? DEFAULT_TRACK;
+}
 
 /**
  * Get all stored games for unsigned user
@@ -55,8 +81,10 @@ export function saveGameRecord(record: GameRecord): void {
   try {
     const games = getStoredGames();
     
-    // Check if a game for this date already exists and replace it
-    const existingIndex = games.findIndex(g => g.date === record.date);
+    // Check if a game for this date and track already exists and replace it
+    const existingIndex = games.findIndex(
+      g => g.date === record.date && getRecordTrack(g) === getRecordTrack(record),
+    );
     if (existingIndex >= 0) {
       games[existingIndex] = record;
     } else {
@@ -70,18 +98,26 @@ export function saveGameRecord(record: GameRecord): void {
 }
 
 /**
- * Get today's game record if it exists
+ * Get today's game record of a track if it exists
  */
-export function getTodaysGameRecord(): GameRecord | undefined {
-  const todayIso = new Date().toISOString().split("T")[0];
-  return getStoredGames().find(g => g.date === todayIso);
+export function getTodaysGameRecord(
+  today: string,
+  track: DailyTrack = DEFAULT_TRACK,
+): GameRecord | undefined {
+  return getStoredGames().find(
+    g => g.date === today && getRecordTrack(g) === track,
+  );
 }
 
 /**
- * Calculate stats from stored games, matching the UserStats format
+ * Calculate a track's stats from stored games, matching the UserStats format
+ * (the current streak ends once a day before yesterday is the latest one)
  */
-export function calculateUnsignedStats(): UnsignedUserStats {
-  const games = getStoredGames();
+export function calculateUnsignedStats(
+  today: string,
+  track: DailyTrack = DEFAULT_TRACK,
+): UnsignedUserStats {
+  const games = getStoredGames().filter(g => getRecordTrack(g) === track);
 
   if (games.length === 0) {
     return {
@@ -130,6 +166,11 @@ export function calculateUnsignedStats(): UnsignedUserStats {
     }
   });
 
+  // A missed day ends the current streak (today may still be unplayed)
+  if (sortedGames[sortedGames.length - 1].date < previousDate(today)) {
+    currentStreak = 0;
+  }
+
   const totalWins = games.filter(g => g.won).length;
 
   return {
@@ -144,8 +185,11 @@ export function calculateUnsignedStats(): UnsignedUserStats {
 /**
  * Get just the stats (ClientStats format) without the full games list
  */
-export function getUnsignedUserStats(): ClientStats {
-  const fullStats = calculateUnsignedStats();
+export function getUnsignedUserStats(
+  today: string,
+  track: DailyTrack = DEFAULT_TRACK,
+): ClientStats {
+  const fullStats = calculateUnsignedStats(today, track);
   return {
     totalGames: fullStats.totalGames,
     totalWins: fullStats.totalWins,
@@ -154,6 +198,47 @@ export function getUnsignedUserStats(): ClientStats {
   };
 }
 
+/**
+ * Get all finished unlimited games for unsigned user (oldest first)
+ */
+export function getStoredUnlimitedGames(): UnlimitedGameRecord[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = localStorage.getItem(UNLIMITED_STORAGE_KEY);
+    if (!stored) return [];
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save a finished unlimited game for unsigned user (one record per seed
+ * and filters, so replaying a challenge link does not count twice)
+ */
+export function saveUnlimitedRecord(record: UnlimitedGameRecord): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    const games = getStoredUnlimitedGames().filter(
+      g => g.seed !== record.seed || g.filters !== record.filters,
+    );
+    games.push(record);
+
+    localStorage.setItem(UNLIMITED_STORAGE_KEY, JSON.stringify(games));
+  } catch (error) {
+    console.error("Error saving unlimited record to storage:", error);
+  }
+}
+
+/**
+ * Calculate unlimited stats from stored unlimited games
+ */
+export function getUnsignedUnlimitedStats(): UnlimitedStats {
+  return calculateUnlimitedStats(getStoredUnlimitedGames());
+}
+
 /**
  * Date normalization helper (copied from stats.ts)
  */
@@ -163,6 +248,28 @@ function toUtcDayNumber(dateString: string): number | null {
   return Date.UTC(year, month - 1, day) / 86400000;
 }
 
+/**
+ * Remove the stored games of some dates and tracks (e.g. the ones imported
+ * into an account), keeping every other record
+ */
+export function removeStoredGames(records: { date: string; track: DailyTrack }[]): void {
+  if (typeof window === "undefined") return;
+  try {
+    const removed = new Set(records.map(r => `${r.track}:${r.date}`));
+    const games = getStoredGames().filter(
+      g => !removed.has(`${getRecordTrack(g)}:${g.date}`),
+    );
+
+    if (games.length > 0) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(games));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Error removing stored games:", error);
+  }
+}
+
 /**
  * Clear all stored games (for testing or logout)
  */
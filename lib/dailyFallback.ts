@@ -0,0 +1,189 @@
+/* -------------------------------------------------------------------------- */
+/*                              dailyFallback.ts                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Fallback daily puzzle for days the schedule doesn't cover (the seed ran
+  out, or a day was never planned).
+
+  The Pokémon is derived from the date, the track and a secret salt
+  (DAILY_FALLBACK_SALT, or PUZZLE_SECRET when unset), so every server picks
+  the same one. The first request of the day saves it into daily_pokemon
+  and records an admin alert; every later request reads that row, so all
+  players get the same answer even if the salt or pool changes later.
+
+  Only a date that is live somewhere in the world right now (real time,
+  between UTC-12 and UTC+14) is saved. Any other date (a simulated clock,
+  or a timezone far ahead) gets the same pick as a transient row (id null)
+  that is not saved: no daily_pokemon row, no alert, and no games are
+  stored against it (progress stays in the guest cookie). The seed script
+  never overwrites a saved day, so nothing unplanned may be saved early.
+
+  Server-only (uses the service role and returns the answer).
+
+  Exports:
+  - DailyPuzzleRow: a daily_pokemon row, or a transient fallback (id null)
+  - isLiveDate(date, at): whether a date is today somewhere at a real time
+  - pickFallbackPokemon(date, track, recent): the derived answer
+  - createFallbackPokemon(date, track, persist): saves the pick (once) and
+    returns the daily_pokemon row, or a transient one for dates that
+    aren't live (or when persist is false)
+*/
+
+import { createHmac } from "crypto"; // Deterministic pick
+import { createAdminClient } from "@/lib/supabase/admin"; // Service role (schedule writes)
+import { listAnswerPool } from "@/lib/pokemon/pools"; // Answer pool
+import type { DailyTrack } from "@/lib/tracks"; // Daily tracks
+import type { Tables } from "@/lib/supabase/database"; // Row types
+import { dateInTimeZone } from "@/lib/timezone"; // Live dates
+
+// daily_pokemon row, or a fallback pick that was not saved (id null)
+export type DailyPuzzleRow = Omit<Tables<"daily_pokemon">, "id"> & {
+  id: string | null;
+};
+
+// Recent answers the fallback avoids (if the pool allows)
+const RECENT_DAYS = 30;
+
+// Last and first zones to reach a new date (UTC-12 and UTC+14)
+const EARLIEST_TIME_ZONE = "Etc/GMT+12";
+const LATEST_TIME_ZONE = "Pacific/Kiritimati";
+
+/* -------------------------------------------------------------------------- */
+/*                                 isLiveDate                                 */
+/* -------------------------------------------------------------------------- */
+/*
+  Whether some timezone shows this date at the given (real) time.
+*/
+export function isLiveDate(date: string, at: number) {
+  return (
+    date >= dateInTimeZone(EARLIEST_TIME_ZONE, at) &&
+    date <= dateInTimeZone(LATEST_TIME_ZONE, at)
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*                            pickFallbackPokemon                             */
+/* -------------------------------------------------------------------------- */
+/*
+  Hashes the date and track with the salt onto the answer pool, skipping
+  the track's recent answers (the next hash is tried instead).
+
+  Returns:
+  - Pokémon name, or null if the pool is empty
+*/
+export function pickFallbackPokemon(
+  date: string,
+  track: DailyTrack,
+  recent: string[],
+): string | null {
+  const pool = listAnswerPool();
+  if (pool.length === 0) return null;
+
+  const salt = process.env.DAILY_FALLBACK_SALT ?? process.env.PUZZLE_SECRET!;
+  let pick = pool[0];
+
+  for (let attempt = 0; attempt <= recent.length; attempt++) {
+    const digest = createHmac("sha256", salt)
+      .update(`daily-fallback:${track}:${date}:${attempt}`)
+      .digest();
+
+    pick = pool[digest.readUInt32BE(0) % pool.length];
+    if (!recent.includes(pick)) break;
+  }
+
+  return pick;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                           createFallbackPokemon                            */
+/* -------------------------------------------------------------------------- */
+/*
+  Saves the fallback pick as the track's daily_pokemon row for a date.
+  A row created in the meantime (another request, or the seed script) is
+  kept as is and returned instead. An admin alert is recorded only by the
+  request that created the row.
+
+  A date that isn't live right now (or persist = false, e.g. on a
+  simulated clock) is only picked: the transient row is returned and
+  nothing is written.
+
+  Returns:
+  - daily_pokemon row (id null when not saved), or null if the pool is
+    empty or the row could not be saved
+*/
+export async function createFallbackPokemon(
+  date: string,
+  track: DailyTrack,
+  persist = true,
+): Promise<DailyPuzzleRow | null> {
+  try {
+    const supabase = createAdminClient();
+
+    // The track's recent answers (not to be repeated right away)
+    const since = new Date(`${date}T00:00:00.000Z`);
+    since.setUTCDate(since.getUTCDate() - RECENT_DAYS);
+
+    const { data: recentRows } = await supabase
+      .from("daily_pokemon")
+      .select("pokemon_name")
+      .eq("track", track)
+      .gte("available_on", since.toISOString().split("T")[0])
+      .lt("available_on", date);
+
+    const pokemonName = pickFallbackPokemon(
+      date,
+      track,
+      (recentRows ?? []).map((row) => row.pokemon_name),
+    );
+    if (!pokemonName) return null;
+
+    // Not live anywhere (simulated or far-ahead day): never saved
+    if (!persist || !isLiveDate(date, Date.now())) {
+      return { id: null, available_on: date, pokemon_name: pokemonName, track };
+    }
+
+    // Insert only (ON CONFLICT DO NOTHING): the first request wins
+    const { data: created, error } = await supabase
+      .from("daily_pokemon")
+      .upsert(
+        { available_on: date, pokemon_name: pokemonName, track },
+        { onConflict: "available_on,track", ignoreDuplicates: true },
+      )
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error saving fallback daily pokemon:", error);
+      return null;
+    }
+
+    if (!created) {
+      // Someone else saved the day first: use their row
+      const { data: existing } = await supabase
+        .from("daily_pokemon")
+        .select("*")
+        .eq("available_on", date)
+        .eq("track", track)
+        .maybeSingle();
+
+      return existing;
+    }
+
+    // Let the admins know the schedule needs attention
+    const { error: alertError } = await supabase.from("admin_alerts").insert({
+      kind: "daily_fallback",
+      message: `No ${track} puzzle was scheduled for ${date}; the fallback picked one. Run the seed script to fill the schedule.`,
+      details: { date, track, pokemonName },
+    });
+
+    if (alertError) {
+      console.error("Error recording admin alert:", alertError);
+    }
+
+    return created;
+  } catch (error) {
+    // Log error on server for debugging (e.g. no service role key)
+    console.error("Error creating fallback daily pokemon:", error);
+    return null;
+  }
+}
@@ -0,0 +1,110 @@
+/* -------------------------------------------------------------------------- */
+/*                                feedback.ts                                 */
+/* -------------------------------------------------------------------------- */
+/*
+  Per-guess attribute feedback ("-dle" style comparison tiles).
+
+  Each guess is compared with the answer on the server. The result only
+  holds the guessed Pokémon's own values plus how they relate to the
+  answer (match / partial / miss, and whether the answer is higher or
+  lower), so the answer's values are never sent before the game ends.
+
+  Attributes:
+  - Primary / secondary type: "partial" when the type is on the answer
+    but in the other slot
+  - Generation, evolution stage, height, weight: direction arrows
+  - Colour: match / miss
+
+  Exports:
+  - FeedbackStatus / FeedbackDirection / FeedbackTile / GuessFeedback
+  - compareGuess(guess, answer): feedback for one guess
+*/
+
+import type { PokemonProfile } from "@/lib/pokemon/repository"; // Normalized Pokémon details
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+// How a guessed value relates to the answer's value
+export type FeedbackStatus = "match" | "partial" | "miss";
+
+// Where the answer's value is compared to the guessed one (null = equal)
+export type FeedbackDirection = "higher" | "lower" | null;
+
+// One tile in a feedback row (value is the guessed Pokémon's own value)
+export type FeedbackTile<T> = {
+  value: T;
+  status: FeedbackStatus;
+  direction?: FeedbackDirection; // Only for numeric attributes
+};
+
+// One feedback row
+export type GuessFeedback = {
+  name: string; // Guessed Pokémon (PokéAPI name)
+  displayName: string; // Guessed Pokémon's English name
+  primaryType: FeedbackTile<string>;
+  secondaryType: FeedbackTile<string | null>; // null = no secondary type
+  generation: FeedbackTile<number>;
+  evolutionStage: FeedbackTile<number>;
+  height: FeedbackTile<number>; // Metres
+  weight: FeedbackTile<number>; // Kilograms
+  color: FeedbackTile<string>;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  Helpers                                   */
+/* -------------------------------------------------------------------------- */
+
+// Numeric tile with an arrow towards the answer
+function compareNumber(value: number, answer: number): FeedbackTile<number> {
+  if (value === answer) {
+    return { value, status: "match", direction: null };
+  }
+
+  return {
+    value,
+    status: "miss",
+    direction: answer > value ? "higher" : "lower",
+  };
+}
+
+// Type tile: same slot = match, other slot = partial
+function compareType<T extends string | null>(
+  value: T,
+  answerValue: string | null,
+  answerTypes: string[],
+): FeedbackTile<T> {
+  if (value === answerValue) return { value, status: "match" };
+  if (value !== null && answerTypes.includes(value)) {
+    return { value, status: "partial" };
+  }
+  return { value, status: "miss" };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                compareGuess                                */
+/* -------------------------------------------------------------------------- */
+export function compareGuess(
+  guess: PokemonProfile,
+  answer: PokemonProfile,
+): GuessFeedback {
+  return {
+    name: guess.name,
+    displayName: guess.displayName,
+    primaryType: compareType(guess.types[0], answer.types[0], answer.types),
+    secondaryType: compareType(
+      guess.types[1] ?? null,
+      answer.types[1] ?? null,
+      answer.types,
+    ),
+    generation: compareNumber(guess.generation, answer.generation),
+    evolutionStage: compareNumber(guess.evolutionStage, answer.evolutionStage),
+    height: compareNumber(guess.height, answer.height),
+    weight: compareNumber(guess.weight, answer.weight),
+    color: {
+      value: guess.color,
+      status: guess.color === answer.color ? "match" : "miss",
+    },
+  };
+}
@@ -3,59 +3,70 @@
 /**
  * Client-side game submission utilities
  * Handles saving game progress for both signed-in and unsigned users
+ *
+ * `today` is the date of the daily puzzle being played (the player's date
+ * in their timezone, see lib/timezone), so local records land on the same
+ * day as the server's.
  */
 
-import {
-  createGuess as serverCreateGuess,
-  endGame as serverEndGame,
-  getUserGame as serverGetUserGame,
-} from "@/lib/actions/guess";
-import { getTodaysPokemon } from "@/lib/actions/guess";
-import { saveGameRecord, getTodaysGameRecord, getStoredGames } from "@/lib/cookieStats";
+import { createGuess as serverCreateGuess } from "@/lib/actions/guess";
+import type { GuessResult } from "@/lib/actions/guess";
+import type { PuzzleRef, PuzzleView } from "@/lib/puzzle";
+import { saveGameRecord, getTodaysGameRecord, getStoredGames, getRecordTrack, saveUnlimitedRecord } from "@/lib/cookieStats";
+import { unlimitedFiltersQuery } from "@/lib/unlimitedFilters";
+import { DEFAULT_TRACK, type DailyTrack } from "@/lib/tracks";
 
 /**
- * Submit a guess - handles both signed-in users (database) and unsigned users (localStorage)
+ * Submit a guess - the server evaluates and stores it, unsigned users
+ * additionally track the daily guess count in localStorage (for stats)
  */
 export async function submitGuess(
   guessName: string,
   isSignedIn: boolean,
-): Promise<void> {
-  if (isSignedIn) {
-    // Signed-in user: save to database
-    await serverCreateGuess(guessName);
-  } else {
-    // Unsigned user: increment guess count in localStorage
-    let record = getTodaysGameRecord();
+  today: string,
+  puzzle: PuzzleRef = { kind: "daily", track: DEFAULT_TRACK },
+): Promise<GuessResult> {
+  // Server decides correctness and stores the guess
+  const result = await serverCreateGuess(guessName, puzzle);
+
+  if (result.ok && !isSignedIn && puzzle.kind === "daily") {
+    // Unsigned user: sync guess count in localStorage
+    const record = getTodaysGameRecord(today, puzzle.track);
     if (record) {
-      record.guesses += 1;
+      record.guesses = result.view.guesses.length;
+      record.guessNames = result.view.guesses;
       saveGameRecord(record);
     }
   }
+
+  return result;
 }
 
 /**
- * End game - handles both signed-in users (database) and unsigned users (localStorage)
+ * End game - signed-in games are finished by the server in createGuess,
+ * so this only records the result for unsigned users (localStorage)
  */
 export async function submitEndGame(
   won: boolean,
   isSignedIn: boolean,
   pokemonName: string,
+  today: string,
+  track: DailyTrack = DEFAULT_TRACK,
 ): Promise<void> {
-  if (isSignedIn) {
-    // Signed-in user: save to database
-    await serverEndGame(won);
-  } else {
+  if (!isSignedIn) {
     // Unsigned user: update game result in localStorage
-    const todayIso = new Date().toISOString().split("T")[0];
     const games = getStoredGames();
     
-    // Find today's game and update it
-    const existingIndex = games.findIndex(g => g.date === todayIso);
+    // Find today's game on this track and update it
+    const existingIndex = games.findIndex(
+      g => g.date === today && getRecordTrack(g) === track,
+    );
     
     if (existingIndex >= 0) {
       // Update existing record and mark as finished
       games[existingIndex].won = won;
       games[existingIndex].isFinished = true;
+      games[existingIndex].pokemonName = pokemonName;
       
       // Save the updated games array
       if (typeof window !== "undefined") {
@@ -70,35 +81,58 @@ export async function submitEndGame(
 }
 
 /**
- * Check if today's game is already finished for unsigned user
+ * End unlimited game - signed-in games are stored by the server, so this
+ * only records the finished game for unsigned users (localStorage)
  */
-export function isTodaysGameFinished(isSignedIn: boolean): boolean {
+export function submitUnlimitedEnd(view: PuzzleView, isSignedIn: boolean): void {
+  if (isSignedIn || view.puzzle.kind !== "unlimited" || !view.isFinished) return;
+
+  saveUnlimitedRecord({
+    seed: view.puzzle.id,
+    filters: unlimitedFiltersQuery(view.puzzle.filters),
+    won: view.won,
+    attempts: view.guesses.length,
+    pokemonName: view.answer || "",
+    playedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Check if today's game on a track is already finished for unsigned user
+ */
+export function isTodaysGameFinished(
+  isSignedIn: boolean,
+  today: string,
+  track: DailyTrack = DEFAULT_TRACK,
+): boolean {
   if (isSignedIn) return false; // Only applies to unsigned users
   
-  const record = getTodaysGameRecord();
+  const record = getTodaysGameRecord(today, track);
   return record?.isFinished === true;
 }
 
 /**
  * Initialize a game - for unsigned users this creates a skeleton record
+ * (the answer is filled in by submitEndGame once the server reveals it)
  */
 export async function initializeGame(
   isSignedIn: boolean,
-  pokemonName: string,
+  today: string,
+  track: DailyTrack = DEFAULT_TRACK,
 ): Promise<void> {
   if (!isSignedIn) {
     // Check if today's record exists
-    const todayIso = new Date().toISOString().split("T")[0];
-    let record = getTodaysGameRecord();
+    let record = getTodaysGameRecord(today, track);
     
     if (!record) {
       // Create new record for today
       saveGameRecord({
-        date: todayIso,
+        date: today,
         won: false,
         guesses: 0,
-        pokemonName,
+        pokemonName: "",
         isFinished: false,
+        track,
       });
     }
   }
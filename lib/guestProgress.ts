@@ -0,0 +1,118 @@
+/* -------------------------------------------------------------------------- */
+/*                              guestProgress.ts                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Server-side progress storage for games that are not saved in the database
+  (logged-out players and unlimited puzzles).
+
+  Guesses are kept in a signed, httpOnly cookie so the server knows how many
+  attempts were used before it reveals hints. The browser cannot read or
+  forge it.
+
+  Cookie value: base64url(JSON { [puzzleKey]: guesses[] }) + "." + signature
+
+  A logged-out player's blitz run (lib/blitz) is kept the same way in a
+  cookie of its own, together with their best blitz score. Its timestamps
+  are set by the server and signed, so the clock cannot be moved either.
+  A signature cannot stop the browser from putting back an older copy of
+  the cookie (replaying a round), so guest blitz scores are never ranked
+  (see lib/actions/blitz).
+
+  Exports:
+  - readGuestGuesses(puzzleKey): guesses stored for a puzzle ([] if none)
+  - writeGuestGuesses(puzzleKey, guesses): stores guesses for a puzzle
+  - GuestBlitz / readGuestBlitz() / writeGuestBlitz(blitz): blitz run + best
+  (writes are only callable from Server Actions / Route Handlers)
+*/
+
+import { cookies } from "next/headers"; // Request cookies (server-only)
+import { decodeSigned, encodeSigned } from "@/lib/signedCookie"; // Cookie signing
+import type { BlitzRun } from "@/lib/blitz"; // Blitz run state
+
+const COOKIE_NAME = "pokedexdle_progress";
+const BLITZ_COOKIE_NAME = "pokedexdle_blitz";
+
+// Only the most recent puzzles are kept to bound the cookie size
+// (room for every daily track plus a few unlimited/archive games)
+const MAX_TRACKED_PUZZLES = 8;
+
+type ProgressMap = Record<string, string[]>;
+
+// Guest blitz state
+export type GuestBlitz = {
+  run: BlitzRun | null; // Latest run (null before the first one)
+  best: number; // Best score so far
+};
+
+// Decode and verify a signed cookie (null if missing, tampered or malformed)
+async function readSignedCookie(name: string): Promise<unknown> {
+  const cookieStore = await cookies();
+  const raw = cookieStore.get(name)?.value;
+
+  return raw ? decodeSigned(raw) : null;
+}
+
+// Encode, sign and store a cookie
+async function writeSignedCookie(name: string, value: unknown) {
+  const cookieStore = await cookies();
+  cookieStore.set(name, encodeSigned(value), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: 60 * 60 * 24 * 7, // One week
+  });
+}
+
+// Progress of every tracked puzzle
+async function readProgressMap(): Promise<ProgressMap> {
+  const progress = await readSignedCookie(COOKIE_NAME);
+  return progress && typeof progress === "object"
+    ? (progress as ProgressMap)
+    : {};
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              readGuestGuesses                              */
+/* -------------------------------------------------------------------------- */
+export async function readGuestGuesses(puzzleKey: string): Promise<string[]> {
+  const progress = await readProgressMap();
+  const guesses = progress[puzzleKey];
+  return Array.isArray(guesses) ? guesses : [];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             writeGuestGuesses                              */
+/* -------------------------------------------------------------------------- */
+export async function writeGuestGuesses(puzzleKey: string, guesses: string[]) {
+  const progress = await readProgressMap();
+
+  // Re-insert the key so it becomes the most recent entry
+  delete progress[puzzleKey];
+  progress[puzzleKey] = guesses;
+
+  // Drop the oldest puzzles beyond the limit
+  const trimmed = Object.fromEntries(
+    Object.entries(progress).slice(-MAX_TRACKED_PUZZLES),
+  );
+
+  await writeSignedCookie(COOKIE_NAME, trimmed);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               readGuestBlitz                               */
+/* -------------------------------------------------------------------------- */
+export async function readGuestBlitz(): Promise<GuestBlitz> {
+  const blitz = (await readSignedCookie(BLITZ_COOKIE_NAME)) as GuestBlitz | null;
+
+  // Only ever written by writeGuestBlitz, so a number best means our shape
+  if (!blitz || typeof blitz.best !== "number") return { run: null, best: 0 };
+  return blitz;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              writeGuestBlitz                               */
+/* -------------------------------------------------------------------------- */
+export async function writeGuestBlitz(blitz: GuestBlitz) {
+  await writeSignedCookie(BLITZ_COOKIE_NAME, blitz);
+}
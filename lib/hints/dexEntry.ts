@@ -0,0 +1,65 @@
+/* -------------------------------------------------------------------------- */
+/*                                dexEntry.ts                                 */
+/* -------------------------------------------------------------------------- */
+/*
+  Redacted Pokédex entry hint.
+
+  Picks one of the answer's English Pokédex entries and masks every name
+  that would give the answer away: the Pokémon's own name and the names of
+  its evolution relatives ("It evolves from ???").
+
+  The entry is picked from the puzzle key, so everyone playing the same
+  puzzle (e.g. today's daily) sees the same text.
+
+  Exports:
+  - MASK: what names are replaced with
+  - redactedDexEntry(answer, puzzleKey): masked entry (null if none)
+*/
+
+import { createHash } from "crypto"; // Deterministic pick
+import type { PokemonProfile } from "@/lib/pokemon/repository"; // Normalized Pokémon details
+
+export const MASK = "???";
+
+// Escape a name for use inside a RegExp ("Mr. Mime" -> "Mr\. Mime")
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Every spelling of the answer and its relatives that could appear
+function namesToMask(answer: PokemonProfile) {
+  const names = [
+    answer.displayName,
+    answer.speciesName,
+    ...answer.evolutionLine.flatMap((member) => [
+      member.displayName,
+      member.name,
+    ]),
+  ];
+
+  // Slugs use hyphens where the text uses spaces ("mr-mime" -> "mr mime")
+  const spellings = names.flatMap((name) => [name, name.replace(/-/g, " ")]);
+
+  // Longest first, so "Mr. Mime" is masked before "Mime" could be
+  return Array.from(new Set(spellings)).sort((a, b) => b.length - a.length);
+}
+
+export function redactedDexEntry(answer: PokemonProfile, puzzleKey: string) {
+  if (answer.flavorTexts.length === 0) return null;
+
+  // Same puzzle -> same entry
+  const digest = createHash("sha256")
+    .update(`dex-entry:${puzzleKey}`)
+    .digest();
+  const entry =
+    answer.flavorTexts[digest.readUInt32BE(0) % answer.flavorTexts.length];
+
+  // Whole-word, case-insensitive ("PIKACHU", "Pikachu's")
+  return namesToMask(answer).reduce((text, name) => {
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\d])${escapeRegExp(name)}(?![\\p{L}\\d])`,
+      "giu",
+    );
+    return text.replace(pattern, MASK);
+  }, entry);
+}
@@ -0,0 +1,195 @@
+/* -------------------------------------------------------------------------- */
+/*                                registry.ts                                 */
+/* -------------------------------------------------------------------------- */
+/*
+  Hint provider registry.
+
+  A hint provider declares what it reveals (label + kind) and how to
+  compute its value from the answer's PokemonProfile (plus the puzzle key,
+  for hints that should be the same for everyone on the same puzzle). Which providers a
+  mode uses, and after how many guesses each one unlocks, is decided by
+  the mode's hint sequence (lib/hints/sequences).
+
+  Adding a hint:
+  1. Add a provider to HINT_PROVIDERS
+  2. Add it to the sequences of the modes that should show it
+  Nothing in the components has to change: text, quote and audio hints
+  are rendered by Hints, image hints in the image panel.
+
+  Exports:
+  - HintKind / HintContext / HintProvider / HintId / HintStep / RevealedHint
+  - HINT_PROVIDERS: every registered provider
+  - revealHints(sequence, answer, context, guessCount, isFinished): redacted hints
+*/
+
+import type { PokemonProfile } from "@/lib/pokemon/repository"; // Normalized Pokémon details
+import type { PuzzleRef } from "@/lib/puzzle"; // Puzzle the hints belong to
+import { unlimitedFiltersQuery } from "@/lib/unlimitedFilters"; // Filters in the cry URL
+import { puzzleImageUrl, type ImageStage } from "@/lib/puzzleImage"; // Server-rendered image stages
+import { redactedDexEntry } from "./dexEntry"; // Masked Pokédex entry
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+// How a hint is rendered: text chip, longer text block, image panel or
+// audio player
+export type HintKind = "text" | "quote" | "image" | "audio";
+
+// Puzzle the hints are computed for
+export type HintContext = {
+  puzzle: PuzzleRef; // Which puzzle
+  puzzleKey: string; // Stable per puzzle, e.g. "daily:2026-02-17"
+};
+
+export type HintProvider = {
+  label: string; // Shown to the player, e.g. "Type"
+  kind: HintKind;
+  // Display value / image URL (null if the answer has nothing to show)
+  compute: (answer: PokemonProfile, context: HintContext) => string | null;
+};
+
+// One entry of a mode's hint sequence
+export type HintStep = {
+  hint: HintId; // Which provider
+  unlocksAfter: number; // Number of guesses after which it is revealed
+};
+
+// Hint as sent to the browser (value only present once unlocked)
+export type RevealedHint = {
+  id: HintId;
+  label: string;
+  kind: HintKind;
+  unlocksAfter: number;
+  unlocked: boolean;
+  value: string | null; // null while locked (or if the answer has no value)
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                 Helpers                                    */
+/* -------------------------------------------------------------------------- */
+
+// Utility: Capitalizes the first character in a string (e.g. "fire" -> "Fire")
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+// Cry route URL: names the puzzle, never the Pokémon (null when there is no cry)
+function cryUrl(answer: PokemonProfile, puzzle: PuzzleRef) {
+  // Blitz rounds only exist inside their run (not addressable by the route)
+  if (!answer.cry || puzzle.kind === "blitz") return null;
+
+  const params = new URLSearchParams({ kind: puzzle.kind });
+  if (puzzle.kind === "unlimited") {
+    params.set("id", puzzle.id);
+    new URLSearchParams(unlimitedFiltersQuery(puzzle.filters)).forEach(
+      (value, name) => params.set(name, value),
+    );
+  }
+  if (puzzle.kind === "archive") params.set("date", puzzle.date);
+  if (puzzle.kind !== "unlimited") params.set("track", puzzle.track);
+
+  return `/api/puzzle-cry?${params}`;
+}
+
+// Server-rendered URL of an image stage (null when there is no artwork)
+function imageStage(
+  answer: PokemonProfile,
+  context: HintContext,
+  stage: ImageStage,
+) {
+  return answer.sprites.artwork
+    ? puzzleImageUrl(answer.name, context.puzzleKey, stage)
+    : null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 Providers                                  */
+/* -------------------------------------------------------------------------- */
+
+export const HINT_PROVIDERS = {
+  type: {
+    label: "Type",
+    kind: "text",
+    compute: (answer) => capitalize(answer.types[0]),
+  },
+  secondaryType: {
+    label: "Secondary Type",
+    kind: "text",
+    compute: (answer) =>
+      answer.types[1] ? capitalize(answer.types[1]) : "None",
+  },
+  evolutionStage: {
+    label: "Evolution Stage",
+    kind: "text",
+    compute: (answer) => `${answer.evolutionStage}`,
+  },
+  generation: {
+    label: "Generation",
+    kind: "text",
+    compute: (answer) => `${answer.generation}`,
+  },
+  dexEntry: {
+    label: "Pokédex Entry",
+    kind: "quote",
+    compute: (answer, context) =>
+      redactedDexEntry(answer, context.puzzleKey),
+  },
+  cry: {
+    label: "Cry",
+    kind: "audio",
+    compute: (answer, context) => cryUrl(answer, context.puzzle),
+  },
+  // Image stages: the value is a server-rendered URL, never the artwork URL
+  imageSilhouette: {
+    label: "Silhouette",
+    kind: "image",
+    compute: (answer, context) => imageStage(answer, context, "silhouette"),
+  },
+  imagePixelated: {
+    label: "Pixelated Image",
+    kind: "image",
+    compute: (answer, context) => imageStage(answer, context, "pixelated"),
+  },
+  imageBlurred: {
+    label: "Blurred Image",
+    kind: "image",
+    compute: (answer, context) => imageStage(answer, context, "blurred"),
+  },
+  image: {
+    label: "Image",
+    kind: "image",
+    compute: (answer, context) => imageStage(answer, context, "full"),
+  },
+} satisfies Record<string, HintProvider>;
+
+export type HintId = keyof typeof HINT_PROVIDERS;
+
+/* -------------------------------------------------------------------------- */
+/*                                revealHints                                 */
+/* -------------------------------------------------------------------------- */
+/*
+  Computes a sequence's hints for the answer, redacting the ones the
+  player has not unlocked yet. Everything is revealed once the game is over.
+*/
+export function revealHints(
+  sequence: HintStep[],
+  answer: PokemonProfile,
+  context: HintContext,
+  guessCount: number,
+  isFinished: boolean,
+): RevealedHint[] {
+  return sequence.map(({ hint, unlocksAfter }) => {
+    const provider: HintProvider = HINT_PROVIDERS[hint];
+    const unlocked = isFinished || guessCount >= unlocksAfter;
+
+    return {
+      id: hint,
+      label: provider.label,
+      kind: provider.kind,
+      unlocksAfter,
+      unlocked,
+      value: unlocked ? provider.compute(answer, context) : null,
+    };
+  });
+}
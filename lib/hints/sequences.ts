@@ -0,0 +1,71 @@
+/* -------------------------------------------------------------------------- */
+/*                                sequences.ts                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Hint sequence per game mode: which hint providers are shown, in which
+  order, and after how many guesses each one unlocks.
+
+  Exports:
+  - TRACK_SEQUENCES: sequence for every daily track (also used when a day
+    is replayed from the archive)
+  - UNLIMITED_SEQUENCE: sequence for unlimited puzzles
+  - BLITZ_SEQUENCE: sequence for blitz rounds (3 attempts)
+  - getHintSequence(puzzle): sequence for a puzzle
+*/
+
+import type { PuzzleRef } from "@/lib/puzzle"; // Puzzle kinds
+import type { DailyTrack } from "@/lib/tracks"; // Daily tracks
+import type { HintStep } from "./registry"; // Sequence entries
+
+// One text tier per guess (the Pokédex entry joins the generation); the
+// image sharpens from the second guess and is fully shown on the last attempt
+const CLASSIC_SEQUENCE: HintStep[] = [
+  { hint: "type", unlocksAfter: 1 },
+  { hint: "secondaryType", unlocksAfter: 2 },
+  { hint: "imageSilhouette", unlocksAfter: 2 },
+  { hint: "evolutionStage", unlocksAfter: 3 },
+  { hint: "cry", unlocksAfter: 3 }, // Move or remove to change when the cry plays
+  { hint: "imagePixelated", unlocksAfter: 3 },
+  { hint: "generation", unlocksAfter: 4 },
+  { hint: "dexEntry", unlocksAfter: 4 },
+  { hint: "imageBlurred", unlocksAfter: 4 },
+  { hint: "image", unlocksAfter: 5 },
+];
+
+// Nothing but the silhouette until the game is over (6 = every attempt)
+const SILHOUETTE_SEQUENCE: HintStep[] = [
+  { hint: "imageSilhouette", unlocksAfter: 0 },
+  { hint: "image", unlocksAfter: 6 },
+];
+
+// Nothing but the redacted Pokédex entry until the game is over
+const DEX_ENTRY_SEQUENCE: HintStep[] = [
+  { hint: "dexEntry", unlocksAfter: 0 },
+  { hint: "image", unlocksAfter: 6 },
+];
+
+export const TRACK_SEQUENCES: Record<DailyTrack, HintStep[]> = {
+  classic: CLASSIC_SEQUENCE,
+  silhouette: SILHOUETTE_SEQUENCE,
+  dexEntry: DEX_ENTRY_SEQUENCE,
+};
+
+export const UNLIMITED_SEQUENCE = CLASSIC_SEQUENCE;
+
+// Against the clock: something to go on right away, then a tier per guess
+// (3 = every blitz attempt, so the full image only shows once it is over)
+export const BLITZ_SEQUENCE: HintStep[] = [
+  { hint: "type", unlocksAfter: 0 },
+  { hint: "imageSilhouette", unlocksAfter: 0 },
+  { hint: "secondaryType", unlocksAfter: 1 },
+  { hint: "imagePixelated", unlocksAfter: 1 },
+  { hint: "generation", unlocksAfter: 2 },
+  { hint: "imageBlurred", unlocksAfter: 2 },
+  { hint: "image", unlocksAfter: 3 },
+];
+
+export function getHintSequence(puzzle: PuzzleRef) {
+  if (puzzle.kind === "unlimited") return UNLIMITED_SEQUENCE;
+  if (puzzle.kind === "blitz") return BLITZ_SEQUENCE;
+  return TRACK_SEQUENCES[puzzle.track];
+}
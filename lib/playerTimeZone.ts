@@ -0,0 +1,183 @@
+/* -------------------------------------------------------------------------- */
+/*                              playerTimeZone.ts                             */
+/* -------------------------------------------------------------------------- */
+/*
+  The player's timezone setting (lib/timezone), read on the server.
+
+  Signed-in players keep it on their profile, so it follows them between
+  devices; logged-out players keep it in a signed cookie of this browser
+  (lib/signedCookie). A change is stored together with the zone it
+  replaces, so lib/timezone can hold the old "today" until the new zone
+  catches up.
+
+  A cookie that fails the signature check counts as UTC chosen long ago
+  (not as "never chosen"), so a forged or edited cookie cannot make the
+  next change apply right away.
+
+  The current time comes from lib/clock (simulated during QA).
+
+  Exports:
+  - readTimeZoneSetting(): the player's setting (UTC if never chosen)
+  - getPlayerToday(): today's date ("YYYY-MM-DD") for the player
+  - getPlayerDay(): today's date + when the next day starts (ISO)
+  - writeTimeZoneSetting(timeZone): stores a new zone
+    (only callable from Server Actions / Route Handlers)
+*/
+
+import { cookies } from "next/headers"; // Request cookies (server-only)
+import { createClient } from "@/lib/supabase/server"; // Server Supabase client
+import { createAdminClient } from "@/lib/supabase/admin"; // Service role (profile writes)
+import { TimeZoneSettingSchema } from "@/lib/schemas"; // Validation
+import { decodeSigned, encodeSigned } from "@/lib/signedCookie"; // Cookie signing
+import { readClock, getNow } from "@/lib/clock"; // Current time
+import {
+  DEFAULT_TIME_ZONE_SETTING,
+  effectiveTimeZone,
+  isTimeZone,
+  nextRolloverAt,
+  playerToday,
+  type TimeZoneSetting,
+} from "@/lib/timezone"; // Day rollover
+
+const COOKIE_NAME = "pokedexdle_timezone";
+
+// Setting of a cookie that is tampered or malformed: UTC, no recent change
+const UNVERIFIED_TIME_ZONE_SETTING: TimeZoneSetting = {
+  ...DEFAULT_TIME_ZONE_SETTING,
+  changedAt: 0,
+};
+
+/* -------------------------------------------------------------------------- */
+/*                            readTimeZoneSetting                             */
+/* -------------------------------------------------------------------------- */
+export async function readTimeZoneSetting(): Promise<TimeZoneSetting> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  // Signed in: the profile's setting
+  if (user) {
+    const { data } = await supabase
+      .from("profiles")
+      .select("timezone, previous_timezone, timezone_changed_at")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    if (!data || !isTimeZone(data.timezone)) return DEFAULT_TIME_ZONE_SETTING;
+
+    return {
+      timeZone: data.timezone,
+      previousTimeZone: isTimeZone(data.previous_timezone)
+        ? data.previous_timezone
+        : null,
+      changedAt: data.timezone_changed_at
+        ? new Date(data.timezone_changed_at).getTime()
+        : null,
+    };
+  }
+
+  // Logged out: this browser's cookie
+  const cookieStore = await cookies();
+  const raw = cookieStore.get(COOKIE_NAME)?.value;
+
+  if (!raw) return DEFAULT_TIME_ZONE_SETTING;
+
+  const parsed = TimeZoneSettingSchema.safeParse(decodeSigned(raw));
+  return parsed.success ? parsed.data : UNVERIFIED_TIME_ZONE_SETTING;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               getPlayerToday                               */
+/* -------------------------------------------------------------------------- */
+export async function getPlayerToday() {
+  return playerToday(await readTimeZoneSetting(), await getNow());
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                getPlayerDay                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Returns:
+  - today: the player's date, i.e. the available_on of their daily puzzle
+  - nextDayAt: when their next daily puzzle becomes available (ISO, on
+    the server's clock, which may be simulated)
+  - clockOffsetMs: simulated time minus real time, so the browser can
+    count down on the same clock
+*/
+export async function getPlayerDay() {
+  const setting = await readTimeZoneSetting();
+  const { offsetMs } = await readClock();
+  const now = Date.now() + offsetMs;
+
+  return {
+    today: playerToday(setting, now),
+    nextDayAt: new Date(nextRolloverAt(setting, now)).toISOString(),
+    clockOffsetMs: offsetMs,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                            writeTimeZoneSetting                            */
+/* -------------------------------------------------------------------------- */
+/*
+  Stores a new zone. The zone in effect right now becomes the previous
+  one (it keeps deciding "today" until the new zone shows the same date).
+
+  Returns:
+  - the stored setting
+*/
+export async function writeTimeZoneSetting(
+  timeZone: string,
+): Promise<TimeZoneSetting> {
+  const current = await readTimeZoneSetting();
+  const now = await getNow();
+
+  // Same zone again: keep the pending change as it is
+  if (current.changedAt !== null && current.timeZone === timeZone) {
+    return current;
+  }
+
+  const setting: TimeZoneSetting =
+    current.changedAt === null
+      ? // First choice: nothing was played in another zone yet (UTC is
+        // only a stand-in until the browser's zone is known)
+        { timeZone, previousTimeZone: null, changedAt: now }
+      : {
+          timeZone,
+          previousTimeZone: effectiveTimeZone(current, now),
+          changedAt: now,
+        };
+
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (user) {
+    const { error } = await createAdminClient()
+      .from("profiles")
+      .update({
+        timezone: setting.timeZone,
+        previous_timezone: setting.previousTimeZone,
+        timezone_changed_at: new Date(now).toISOString(),
+      })
+      .eq("id", user.id);
+
+    if (error) throw new Error(`Could not save timezone: ${error.message}`);
+  }
+
+  // Kept in the browser too, so signing out keeps the same day
+  const cookieStore = await cookies();
+  cookieStore.set(COOKIE_NAME, encodeSigned(setting), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: 60 * 60 * 24 * 365, // One year
+  });
+
+  return setting;
+}
@@ -0,0 +1,203 @@
+/* -------------------------------------------------------------------------- */
+/*                                 catalog.ts                                 */
+/* -------------------------------------------------------------------------- */
+/*
+  Offline Pokémon catalog.
+
+  The catalog is a versioned JSON snapshot of the PokéAPI data the game
+  needs, written by `npm run catalog` (scripts/build-catalog.ts). Everything
+  that used to call PokéAPI at request time reads from here instead, so the
+  app runs (and can be tested) without network access.
+
+  Snapshot file: lib/pokemon/data/catalog.json
+
+  The snapshot is required: without it the app and the seed script stop
+  with an error instead of running on partial data (answers already in
+  daily_pokemon would be missing, and the seed would plan from a handful
+  of species). Build it once with `npm run catalog` and commit it.
+
+  Fixture: lib/pokemon/data/catalog.fixture.json (committed). A few dozen
+  species (starters, ghosts, forms and tricky names) with placeholder
+  flavor text, read only by the tests (NODE_ENV=test), so they have stable
+  data whether or not the snapshot was built.
+
+  Exports:
+  - CATALOG_VERSION / CATALOG_PATH: what the build script writes and where
+  - CATALOG_FIXTURE_PATH: the committed test snapshot
+  - CRIES_DIR: where bundled cry audio lives (optional)
+  - Catalog types (PokemonCatalog, CatalogSpecies, CatalogVariety)
+  - getCatalog(): the loaded snapshot (cached in memory)
+  - listSpecies(): every species in dex order
+  - getSpecies(name): species by species name
+  - getSpeciesByDexNumber(dexNumber): species by National Pokédex number
+  - listVarieties(): every Pokémon (default + alternate forms)
+  - findVariety(name): a Pokémon by its PokéAPI name, with its species
+*/
+
+import { existsSync, readFileSync } from "fs"; // Snapshot is read from disk once
+import path from "path";
+
+// Bump when the snapshot shape changes (the build script writes this number)
+export const CATALOG_VERSION = 4;
+
+// Where the snapshot lives (relative to the project root)
+export const CATALOG_PATH = path.join(
+  process.cwd(),
+  "lib",
+  "pokemon",
+  "data",
+  "catalog.json",
+);
+
+// Small committed snapshot, read instead of CATALOG_PATH in tests
+export const CATALOG_FIXTURE_PATH = path.join(
+  process.cwd(),
+  "lib",
+  "pokemon",
+  "data",
+  "catalog.fixture.json",
+);
+
+// Optional bundled cry audio (<pokemon name>.ogg), see `npm run catalog -- --cries`
+export const CRIES_DIR = path.join(
+  process.cwd(),
+  "lib",
+  "pokemon",
+  "data",
+  "cries",
+);
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+// English Pokédex entry as PokéAPI returns it (not normalized)
+export type CatalogFlavorText = {
+  version: string; // Game version, e.g. "red"
+  text: string; // Raw entry text
+};
+
+// A Pokémon (PokéAPI "pokemon" resource): a species' default or alternate form
+export type CatalogVariety = {
+  id: number; // PokéAPI pokemon id (default forms share the dex number)
+  name: string; // PokéAPI name, e.g. "charizard" or "charizard-mega-x"
+  isDefault: boolean; // Whether this is the species' default form
+  types: string[]; // Type names in slot order, e.g. ["fire", "flying"]
+  height: number; // Decimetres (as PokéAPI reports it)
+  weight: number; // Hectograms (as PokéAPI reports it)
+  sprites: {
+    front: string | null; // Small front sprite URL
+    artwork: string | null; // Official artwork URL
+  };
+  cry: string | null; // Latest cry audio URL (.ogg)
+};
+
+// A species with everything shared by its forms
+export type CatalogSpecies = {
+  dexNumber: number; // National Pokédex number
+  name: string; // Species name, e.g. "mr-mime"
+  displayName: string; // English name, e.g. "Mr. Mime"
+  generation: number; // Generation number the species was introduced in
+  color: string; // Pokédex colour, e.g. "red"
+  evolutionChainId: number | null; // PokéAPI evolution chain id
+  evolvesFrom: string | null; // Species it evolves from (null for base forms)
+  flavorTexts: CatalogFlavorText[]; // English Pokédex entries
+  varieties: CatalogVariety[]; // Default form first
+};
+
+// The whole snapshot
+export type PokemonCatalog = {
+  version: number; // CATALOG_VERSION the snapshot was built with
+  generatedAt: string; // ISO timestamp of the build
+  species: CatalogSpecies[]; // Dex order
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                   Loader                                   */
+/* -------------------------------------------------------------------------- */
+
+// Loaded snapshot + lookup indexes (built once per server process)
+let cachedCatalog: {
+  catalog: PokemonCatalog;
+  speciesByName: Map<string, CatalogSpecies>;
+  speciesByDexNumber: Map<number, CatalogSpecies>;
+  varietiesByName: Map<
+    string,
+    { species: CatalogSpecies; variety: CatalogVariety }
+  >;
+} | null = null;
+
+function loadCatalog() {
+  if (cachedCatalog) return cachedCatalog;
+
+  // Tests always read the fixture, so they don't depend on a local build
+  const catalogPath =
+    process.env.NODE_ENV === "test" ? CATALOG_FIXTURE_PATH : CATALOG_PATH;
+
+  if (!existsSync(catalogPath)) {
+    throw new Error(
+      `Pokémon catalog not found at ${catalogPath}. Run "npm run catalog" to build it (needs access to PokéAPI) and commit it.`,
+    );
+  }
+
+  let catalog: PokemonCatalog;
+
+  try {
+    catalog = JSON.parse(readFileSync(catalogPath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Pokémon catalog could not be read from ${catalogPath}. Run "npm run catalog" to build it.`,
+      { cause: error },
+    );
+  }
+
+  // An outdated snapshot would be missing fields the app relies on
+  if (catalog.version !== CATALOG_VERSION) {
+    throw new Error(
+      `Pokémon catalog is version ${catalog.version}, expected ${CATALOG_VERSION}. Run "npm run catalog" to rebuild it.`,
+    );
+  }
+
+  cachedCatalog = {
+    catalog,
+    speciesByName: new Map(catalog.species.map((s) => [s.name, s])),
+    speciesByDexNumber: new Map(catalog.species.map((s) => [s.dexNumber, s])),
+    varietiesByName: new Map(
+      catalog.species.flatMap((species) =>
+        species.varieties.map(
+          (variety) => [variety.name, { species, variety }] as const,
+        ),
+      ),
+    ),
+  };
+
+  return cachedCatalog;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Lookups                                   */
+/* -------------------------------------------------------------------------- */
+
+export function getCatalog() {
+  return loadCatalog().catalog;
+}
+
+export function listSpecies() {
+  return loadCatalog().catalog.species;
+}
+
+export function getSpecies(name: string) {
+  return loadCatalog().speciesByName.get(name) ?? null;
+}
+
+export function getSpeciesByDexNumber(dexNumber: number) {
+  return loadCatalog().speciesByDexNumber.get(dexNumber) ?? null;
+}
+
+export function listVarieties() {
+  return Array.from(loadCatalog().varietiesByName.values());
+}
+
+export function findVariety(name: string) {
+  return loadCatalog().varietiesByName.get(name) ?? null;
+}
@@ -0,0 +1,49 @@
+/* -------------------------------------------------------------------------- */
+/*                               difficulty.ts                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Difficulty tier of a Pokémon as a puzzle answer.
+
+  There is no popularity data in the catalog, so the tier is a heuristic
+  for how well-known a Pokémon is:
+  - Newer generations are less familiar (+1 per generation after the first)
+  - Middle evolutions are less memorable than the base or final form (+2)
+  - Regional and other separate forms are harder to pin down (+2)
+
+  Score -> tier: 0-2 easy, 3-5 medium, 6+ hard.
+
+  Exports:
+  - difficultyScore(profile): heuristic score
+  - getDifficulty(profile): easy | medium | hard
+*/
+
+import type { Difficulty } from "@/lib/unlimitedFilters"; // Tier names
+import type { PokemonProfile } from "./repository"; // Normalized Pokémon details
+
+// Highest score of each tier (anything above the last one is "hard")
+const TIER_LIMITS: { tier: Difficulty; maxScore: number }[] = [
+  { tier: "easy", maxScore: 2 },
+  { tier: "medium", maxScore: 5 },
+];
+
+export function difficultyScore(profile: PokemonProfile) {
+  const lastStage = Math.max(
+    ...profile.evolutionLine.map((member) => member.stage),
+    profile.evolutionStage,
+  );
+
+  const isMiddleStage =
+    profile.evolutionStage > 1 && profile.evolutionStage < lastStage;
+  const isSeparateForm = profile.name !== profile.speciesName;
+
+  return (
+    (profile.generation - 1) +
+    (isMiddleStage ? 2 : 0) +
+    (isSeparateForm ? 2 : 0)
+  );
+}
+
+export function getDifficulty(profile: PokemonProfile): Difficulty {
+  const score = difficultyScore(profile);
+  return TIER_LIMITS.find(({ maxScore }) => score <= maxScore)?.tier ?? "hard";
+}
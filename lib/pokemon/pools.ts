@@ -0,0 +1,241 @@
+/* -------------------------------------------------------------------------- */
+/*                                  pools.ts                                  */
+/* -------------------------------------------------------------------------- */
+/*
+  Answer pool and guessable pool.
+
+  The catalog holds every Pokémon PokéAPI knows about, including megas,
+  Gigantamax forms, totems and cosmetic variants (charizard-gmax,
+  pikachu-rock-star, ...). These rules decide which of them can be an
+  answer and which can be guessed, and are shared by every entry point
+  (search dropdown, guess validation, daily seeding, unlimited puzzles).
+
+  Form handling (POOL_CONFIG.forms):
+  - "species": one entry per species. Only default forms are answers or
+    listed in search; guessing any form counts as its species
+    ("raichu-alola" -> "raichu").
+  - "separate": forms of the kinds in POOL_CONFIG.separateFormKinds are
+    their own Pokémon (answers, listed in search, guessed as themselves).
+    Every other form still counts as its species.
+
+  Exports:
+  - FormKind / FormMode / POOL_CONFIG
+  - getFormKind(species, variety): classifies a form
+  - listAnswerPool(): Pokémon names that can be picked as answers
+  - listFilteredAnswerPool(filters): answers matching unlimited filters
+  - listGuessablePool(): catalog entries offered in search
+  - resolvePoolName(name): the pool name a guess counts as (or null)
+  - normalizeGuessName(name): a typed name as a catalog slug
+  - resolveGuessName(name): the pool name a typed name counts as (or null)
+*/
+
+import {
+  findVariety,
+  getSpecies,
+  listSpecies,
+  listVarieties,
+  type CatalogSpecies,
+  type CatalogVariety,
+} from "./catalog"; // Offline snapshot
+import { getDifficulty } from "./difficulty"; // Difficulty tiers
+import { getPokemonProfile } from "./repository"; // Filterable details
+import type { UnlimitedFilters } from "@/lib/unlimitedFilters"; // Pool filters
+
+/* -------------------------------------------------------------------------- */
+/*                                   Config                                   */
+/* -------------------------------------------------------------------------- */
+
+export type FormKind =
+  | "default" // The species' default form
+  | "regional" // Alolan, Galarian, Hisuian and Paldean forms
+  | "mega" // Mega Evolutions (incl. Primal Reversion)
+  | "gmax" // Gigantamax forms
+  | "totem" // Totem-sized forms
+  | "cosmetic" // Costumes and caps (pikachu-rock-star, pikachu-alola-cap)
+  | "alternate"; // Any other form (deoxys-attack, rotom-wash, ...)
+
+export type FormMode = "species" | "separate";
+
+export const POOL_CONFIG: {
+  forms: FormMode; // How non-default forms are handled
+  separateFormKinds: FormKind[]; // Kinds that are their own Pokémon in "separate" mode
+} = {
+  forms: "species",
+  separateFormKinds: ["regional"],
+};
+
+/* -------------------------------------------------------------------------- */
+/*                              Form Classification                           */
+/* -------------------------------------------------------------------------- */
+
+const REGIONAL_PATTERN = /-(alola|galar|hisui|paldea)(-|$)/;
+const COSMETIC_PATTERN =
+  /-(cap|cosplay|rock-star|belle|pop-star|phd|libre|starter)$/;
+
+// Form names are "<species>-<form>", so only the form part is inspected
+export function getFormKind(
+  species: CatalogSpecies,
+  variety: CatalogVariety,
+): FormKind {
+  if (variety.isDefault) return "default";
+
+  const form = variety.name.startsWith(`${species.name}-`)
+    ? variety.name.slice(species.name.length)
+    : `-${variety.name}`;
+
+  if (form.includes("-totem")) return "totem";
+  if (COSMETIC_PATTERN.test(form)) return "cosmetic";
+  if (/-(mega|primal)(-|$)/.test(form)) return "mega";
+  if (/-gmax$/.test(form)) return "gmax";
+  if (REGIONAL_PATTERN.test(form)) return "regional";
+  return "alternate";
+}
+
+// Whether a form is its own Pokémon under the current config
+function isSeparateForm(species: CatalogSpecies, variety: CatalogVariety) {
+  const kind = getFormKind(species, variety);
+
+  if (kind === "default") return true;
+
+  return (
+    POOL_CONFIG.forms === "separate" &&
+    POOL_CONFIG.separateFormKinds.includes(kind)
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Pools                                    */
+/* -------------------------------------------------------------------------- */
+
+// Built once per server process
+let cachedPool: { species: CatalogSpecies; variety: CatalogVariety }[] | null =
+  null;
+
+// Catalog entries that count as their own Pokémon, in dex order
+export function listGuessablePool() {
+  if (!cachedPool) {
+    cachedPool = listSpecies().flatMap((species) =>
+      species.varieties
+        .filter((variety) => isSeparateForm(species, variety))
+        .map((variety) => ({ species, variety })),
+    );
+  }
+
+  return cachedPool;
+}
+
+// Answers are drawn from the same Pokémon players can guess
+export function listAnswerPool() {
+  return listGuessablePool().map(({ variety }) => variety.name);
+}
+
+// Answers matching every set filter (empty filter lists match everything)
+export function listFilteredAnswerPool(filters: UnlimitedFilters) {
+  return listAnswerPool().filter((name) => {
+    const profile = getPokemonProfile(name);
+    if (!profile) return false;
+
+    return (
+      (filters.generations.length === 0 ||
+        filters.generations.includes(profile.generation)) &&
+      (filters.types.length === 0 ||
+        profile.types.some((type) => filters.types.includes(type))) &&
+      (filters.stages.length === 0 ||
+        filters.stages.includes(profile.evolutionStage)) &&
+      (filters.difficulty === null ||
+        getDifficulty(profile) === filters.difficulty)
+    );
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              resolvePoolName                               */
+/* -------------------------------------------------------------------------- */
+/*
+  Maps a (normalized) species or form name onto the pool entry it counts
+  as. Returns null if the name is not in the catalog.
+*/
+export function resolvePoolName(name: string) {
+  const match = findVariety(name);
+
+  // Separate forms are guessed as themselves
+  if (match && isSeparateForm(match.species, match.variety)) {
+    return match.variety.name;
+  }
+
+  // Everything else counts as the species' default form
+  const species = match?.species ?? getSpecies(name);
+  return species?.varieties[0]?.name ?? null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             normalizeGuessName                             */
+/* -------------------------------------------------------------------------- */
+/*
+  Turns a typed name into the slug PokéAPI would use:
+  - Case, accents and surrounding whitespace are ignored
+  - Gender symbols become suffixes ("nidoran♀" -> "nidoran-f")
+  - Colons and apostrophes are dropped ("Type: Null" -> "type-null",
+    "farfetch'd" -> "farfetchd")
+  - Periods become hyphens, with or without a space after them
+    ("Mr.Mime" and "Mr. Mime" -> "mr-mime", "Mime Jr." -> "mime-jr")
+  - Spaces/underscores become hyphens ("mr mime" -> "mr-mime")
+*/
+export function normalizeGuessName(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase()
+    .replace(/♀/g, "-f")
+    .replace(/♂/g, "-m")
+    .replace(/[:'’]/g, "")
+    .replace(/\.\s*/g, "-")
+    .replace(/[\s_]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              resolveGuessName                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Maps a typed name onto the pool entry it counts as. A slug that is not in
+  the catalog is matched once more with hyphens ignored ("mrmime",
+  "porygon z"), against the catalog's own slugs only.
+
+  Returns:
+  - pool name, or null if the name is not in the catalog
+*/
+
+// Catalog slugs by their hyphen-less form ("mrmime" -> "mr-mime"), built once
+let cachedCompactSlugs: Map<string, string> | null = null;
+
+function compactSlugs() {
+  if (!cachedCompactSlugs) {
+    cachedCompactSlugs = new Map();
+
+    // Species before their forms, so a species keeps its own compact key
+    const slugs = [
+      ...listSpecies().map((species) => species.name),
+      ...listVarieties().map(({ variety }) => variety.name),
+    ];
+    for (const slug of slugs) {
+      const key = slug.replace(/-/g, "");
+      if (!cachedCompactSlugs.has(key)) cachedCompactSlugs.set(key, slug);
+    }
+  }
+
+  return cachedCompactSlugs;
+}
+
+export function resolveGuessName(name: string) {
+  const slug = normalizeGuessName(name);
+  if (!slug) return null;
+
+  const resolved = resolvePoolName(slug);
+  if (resolved) return resolved;
+
+  const compact = compactSlugs().get(slug.replace(/-/g, ""));
+  return compact ? resolvePoolName(compact) : null;
+}
@@ -0,0 +1,165 @@
+/* -------------------------------------------------------------------------- */
+/*                                repository.ts                               */
+/* -------------------------------------------------------------------------- */
+/*
+  PokemonRepository: the one place Pokémon details are looked up.
+
+  Pages, Server Actions and the puzzle helpers ask for a normalized
+  PokemonProfile instead of reading catalog entries (or PokéAPI responses)
+  themselves, so things like the evolution stage are only worked out once.
+
+  Evolution stages follow evolvesFrom links up to the base form, so every
+  branch of a chain is handled (Eevee -> Umbreon is stage 2, Tyrogue ->
+  Hitmonchan is stage 2, Wurmple -> Silcoon -> Beautifly is stage 3).
+
+  Exports:
+  - PokemonProfile / PokemonEvolution: normalized shapes
+  - getPokemonProfile(name): profile for a Pokémon (any form), or null
+  - getEvolutionStage(speciesName): 1 for base forms, 2 for first evolutions, ...
+*/
+
+import { findVariety, getSpecies, listSpecies } from "./catalog"; // Offline snapshot
+import type { CatalogSpecies } from "./catalog";
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+// One member of an evolution line
+export type PokemonEvolution = {
+  name: string; // Species name, e.g. "eevee"
+  displayName: string; // English name, e.g. "Eevee"
+  stage: number; // Evolution stage of this member
+};
+
+// Everything the game needs to know about a Pokémon
+export type PokemonProfile = {
+  name: string; // PokéAPI name of this form, e.g. "charizard"
+  speciesName: string; // Species it belongs to, e.g. "charizard"
+  displayName: string; // English species name, e.g. "Charizard"
+  dexNumber: number; // National Pokédex number
+  types: string[]; // Type names in slot order, e.g. ["fire", "flying"]
+  generation: number; // Generation number the species was introduced in
+  evolutionStage: number; // 1 for base forms, 2 for first evolutions, ...
+  evolutionLine: PokemonEvolution[]; // Whole family, by stage then dex number
+  height: number; // Metres
+  weight: number; // Kilograms
+  color: string; // Pokédex colour, e.g. "red"
+  flavorTexts: string[]; // English Pokédex entries (normalized, no duplicates)
+  sprites: {
+    front: string | null; // Small front sprite URL
+    artwork: string | null; // Official artwork URL
+  };
+  cry: string | null; // Cry audio URL (.ogg), server-only
+};
+
+/* -------------------------------------------------------------------------- */
+/*                              Evolution Helpers                             */
+/* -------------------------------------------------------------------------- */
+
+export function getEvolutionStage(speciesName: string) {
+  let stage = 1;
+  let current = getSpecies(speciesName);
+
+  // Walk up to the base form; the visited set guards against bad data loops
+  const visited = new Set<string>();
+
+  while (current?.evolvesFrom && !visited.has(current.name)) {
+    visited.add(current.name);
+    current = getSpecies(current.evolvesFrom);
+    stage++;
+  }
+
+  return stage;
+}
+
+// Every species sharing the evolution chain (a species without one is alone)
+function getEvolutionLine(species: CatalogSpecies): PokemonEvolution[] {
+  const members =
+    species.evolutionChainId === null
+      ? [species]
+      : listSpecies().filter(
+          (entry) => entry.evolutionChainId === species.evolutionChainId,
+        );
+
+  return members
+    .map((entry) => ({
+      name: entry.name,
+      displayName: entry.displayName,
+      stage: getEvolutionStage(entry.name),
+      dexNumber: entry.dexNumber,
+    }))
+    .sort((a, b) => a.stage - b.stage || a.dexNumber - b.dexNumber)
+    .map(({ name, displayName, stage }) => ({ name, displayName, stage }));
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Flavor Text                                 */
+/* -------------------------------------------------------------------------- */
+
+/*
+  PokéAPI keeps the line breaks of the original game text boxes:
+  - "\f" (form feed) and "\n" where the text box wrapped
+  - "\u00ad\n" (soft hyphen) where a word was split across lines
+  - "POKéMON" spelled in caps in older entries
+*/
+function normalizeFlavorText(text: string) {
+  return text
+    .replace(/\u00ad[\n\f]/g, "")
+    .replace(/-[\n\f]/g, "-")
+    .replace(/[\f\n\r]+/g, " ")
+    .replace(/POKéMON/g, "Pokémon")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function getFlavorTexts(species: CatalogSpecies) {
+  return Array.from(
+    new Set(
+      species.flavorTexts
+        .map((entry) => normalizeFlavorText(entry.text))
+        .filter(Boolean),
+    ),
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             getPokemonProfile                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Looks up a Pokémon by its PokéAPI name (a species name resolves to its
+  default form). Profiles are cached per server process.
+*/
+const profileCache = new Map<string, PokemonProfile>();
+
+export function getPokemonProfile(name: string): PokemonProfile | null {
+  const cached = profileCache.get(name);
+  if (cached) return cached;
+
+  // A form name carries its species; a species name means its default form
+  const match = findVariety(name);
+  const species = match?.species ?? getSpecies(name);
+  const variety = match?.variety ?? species?.varieties[0];
+
+  if (!species || !variety) return null;
+
+  const profile: PokemonProfile = {
+    name: variety.name,
+    speciesName: species.name,
+    displayName: species.displayName,
+    dexNumber: species.dexNumber,
+    types: variety.types,
+    generation: species.generation,
+    evolutionStage: getEvolutionStage(species.name),
+    evolutionLine: getEvolutionLine(species),
+    height: variety.height / 10, // Decimetres -> metres
+    weight: variety.weight / 10, // Hectograms -> kilograms
+    color: species.color,
+    flavorTexts: getFlavorTexts(species),
+    sprites: variety.sprites,
+    cry: variety.cry,
+  };
+
+  profileCache.set(name, profile);
+  return profile;
+}
@@ -0,0 +1,216 @@
+/* -------------------------------------------------------------------------- */
+/*                                 search.ts                                  */
+/* -------------------------------------------------------------------------- */
+/*
+  Search index over the Pokémon catalog (used by the guess autocomplete).
+
+  Every Pokémon in the guessable pool (lib/pokemon/pools) is indexed
+  under its PokéAPI slug and its English display name, both normalized the same way as the
+  query:
+  - Accents are dropped ("Flabébé" -> "flabebe")
+  - Gender symbols become letters ("Nidoran♀" -> "nidoranf")
+  - Spaces, hyphens, periods and apostrophes are ignored
+    ("mr mime", "Mr. Mime" and "mr-mime" all become "mrmime")
+
+  Results are ranked by how well they match, best first:
+  1. Exact match
+  2. Prefix match ("char" -> "charmander")
+  3. Word prefix match ("mime" -> "Mr. Mime")
+  4. Substring match ("chu" -> "pikachu")
+  5. Small typo (1 edit from 4 letters, 2 edits from 7 letters)
+  Ties go to default forms, then shorter names, then dex order.
+
+  Exports:
+  - PokemonSearchResult: { name, displayName }
+  - searchPokemonIndex(query, limit): ranked results
+*/
+
+import { listGuessablePool } from "./pools"; // Which Pokémon can be guessed
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export type PokemonSearchResult = {
+  name: string; // PokéAPI slug (what a guess is submitted as)
+  displayName: string; // Shown in the dropdown, e.g. "Charizard (Mega X)"
+};
+
+type IndexEntry = PokemonSearchResult & {
+  keys: string[]; // Normalized slug + display name
+  words: string[]; // Normalized words of the slug + display name
+  isDefault: boolean; // Default forms win ties
+  dexNumber: number; // Final tie-breaker
+};
+
+// Match quality, lower is better
+const RANK = {
+  exact: 0,
+  prefix: 1,
+  wordPrefix: 2,
+  substring: 3,
+  typo: 4,
+} as const;
+
+/* -------------------------------------------------------------------------- */
+/*                               Normalization                                */
+/* -------------------------------------------------------------------------- */
+
+// Lowercase, strip accents and map gender symbols, keeping word breaks
+function normalizeWords(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/♀/g, "f")
+    .replace(/♂/g, "m")
+    .replace(/['’.]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Single comparable key ("Mr. Mime" -> "mrmime")
+function normalizeKey(value: string) {
+  return normalizeWords(value).join("");
+}
+
+// "charizard-mega-x" of "charizard" -> "Charizard (Mega X)"
+function formDisplayName(
+  speciesDisplayName: string,
+  speciesName: string,
+  name: string,
+) {
+  const suffix = name.startsWith(`${speciesName}-`)
+    ? name.slice(speciesName.length + 1)
+    : name;
+
+  const form = suffix
+    .split("-")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(" ");
+
+  return `${speciesDisplayName} (${form})`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Typo Matching                               */
+/* -------------------------------------------------------------------------- */
+
+// Levenshtein distance, giving up early once it exceeds max
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1, // Deletion
+        current[j - 1] + 1, // Insertion
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1), // Substitution
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// Whether the query is within a few edits of the key (or of its start,
+// so typos are forgiven while the name is still being typed)
+function isTypoMatch(query: string, key: string) {
+  // Very short queries would match almost anything
+  if (query.length < 4) return false;
+
+  const maxEdits = query.length >= 7 ? 2 : 1;
+
+  for (let offset = -maxEdits; offset <= maxEdits; offset++) {
+    const length = query.length + offset;
+    if (length < 1 || length > key.length) continue;
+
+    if (editDistance(query, key.slice(0, length), maxEdits) <= maxEdits) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   Index                                    */
+/* -------------------------------------------------------------------------- */
+
+// Built once per server process
+let cachedIndex: IndexEntry[] | null = null;
+
+function getIndex() {
+  if (cachedIndex) return cachedIndex;
+
+  cachedIndex = listGuessablePool().map(({ species, variety }) => {
+    const displayName = variety.isDefault
+      ? species.displayName
+      : formDisplayName(species.displayName, species.name, variety.name);
+
+    return {
+      name: variety.name,
+      displayName,
+      keys: Array.from(
+        new Set([normalizeKey(variety.name), normalizeKey(displayName)]),
+      ),
+      words: Array.from(
+        new Set([
+          ...normalizeWords(variety.name),
+          ...normalizeWords(displayName),
+        ]),
+      ),
+      isDefault: variety.isDefault,
+      dexNumber: species.dexNumber,
+    };
+  });
+
+  return cachedIndex;
+}
+
+// Best (lowest) rank of an entry for a query, or null if it does not match
+function rankEntry(entry: IndexEntry, query: string) {
+  if (entry.keys.some((key) => key === query)) return RANK.exact;
+  if (entry.keys.some((key) => key.startsWith(query))) return RANK.prefix;
+  if (entry.words.some((word) => word.startsWith(query))) {
+    return RANK.wordPrefix;
+  }
+  if (entry.keys.some((key) => key.includes(query))) return RANK.substring;
+  if (entry.keys.some((key) => isTypoMatch(query, key))) return RANK.typo;
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             searchPokemonIndex                             */
+/* -------------------------------------------------------------------------- */
+export function searchPokemonIndex(
+  query: string,
+  limit = 10,
+): PokemonSearchResult[] {
+  const normalized = normalizeKey(query);
+  if (!normalized) return [];
+
+  return getIndex()
+    .flatMap((entry) => {
+      const rank = rankEntry(entry, normalized);
+      return rank === null ? [] : [{ entry, rank }];
+    })
+    .sort(
+      (a, b) =>
+        a.rank - b.rank ||
+        Number(b.entry.isDefault) - Number(a.entry.isDefault) ||
+        a.entry.name.length - b.entry.name.length ||
+        a.entry.dexNumber - b.entry.dexNumber,
+    )
+    .slice(0, limit)
+    .map(({ entry }) => ({ name: entry.name, displayName: entry.displayName }));
+}
@@ -0,0 +1,285 @@
+/* -------------------------------------------------------------------------- */
+/*                                 puzzle.ts                                  */
+/* -------------------------------------------------------------------------- */
+/*
+  Server-side puzzle helpers shared by the pages and the guess Server Actions.
+
+  The answer for a puzzle never leaves the server as a whole. Instead the
+  browser receives a redacted PuzzleView that only contains what the player
+  has unlocked so far (hints, image, and the name once the game is over).
+
+  Exports:
+  - MAX_ATTEMPTS: number of guesses per puzzle
+  - BLITZ_ATTEMPTS: number of guesses per blitz round
+  - maxAttemptsFor(puzzle): guess limit of a puzzle
+  - PuzzleRef: identifies a puzzle (today's puzzle of a daily track, a past
+    daily puzzle replayed from the archive, an unlimited one or a round of
+    a blitz run)
+  - PuzzleView: redacted DTO rendered by GameClient
+  - GuessRuleError / GuessPlan / planGuess(guess, previous, answer): checks a guess
+    against the game's rules and decides its attempt
+  - replayGuesses(names, answer): decides a game from its guessed names
+    (local records imported into an account)
+  - loadPuzzleAnswer(name): loads the PokemonProfile hints are built from
+  - buildPuzzleView(puzzle, puzzleKey, answer, guesses): redacts an answer
+    for the client
+  - newUnlimitedPuzzleId(): creates an opaque id for a new unlimited puzzle
+  - isUnlimitedPuzzleId(value): whether a value (e.g. ?seed=) is a valid id
+  - getUnlimitedPokemonName(id, filters): resolves the answer behind an
+    unlimited id (drawn from the filtered pool)
+*/
+
+import { createHmac, randomBytes } from "crypto"; // Opaque ids + answer derivation
+import { compareGuess, type GuessFeedback } from "@/lib/feedback"; // Per-guess comparison tiles
+import { revealHints, type RevealedHint } from "@/lib/hints/registry"; // Hint providers
+import { getHintSequence } from "@/lib/hints/sequences"; // Hint order per mode
+import { listFilteredAnswerPool, resolveGuessName } from "@/lib/pokemon/pools"; // Answers + guess names
+import type { DailyTrack } from "@/lib/tracks"; // Daily puzzle tracks
+import type { UnlimitedFilters } from "@/lib/unlimitedFilters"; // Unlimited pool filters
+import {
+  getPokemonProfile,
+  type PokemonProfile,
+} from "@/lib/pokemon/repository"; // Normalized Pokémon details
+
+// Number of guesses a player gets for each puzzle
+export const MAX_ATTEMPTS = 6;
+
+// Blitz rounds are against the clock, so they get fewer guesses
+export const BLITZ_ATTEMPTS = 3;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+// Identifies which puzzle a view/guess belongs to
+export type PuzzleRef =
+  | { kind: "daily"; track: DailyTrack } // Today's daily_pokemon row of a track
+  | { kind: "archive"; date: string; track: DailyTrack } // Past row ("YYYY-MM-DD")
+  | { kind: "unlimited"; id: string; filters: UnlimitedFilters } // Opaque id + pool filters, answer derived server-side
+  | { kind: "blitz"; runId: string; round: number }; // Round of a timed blitz run (see lib/blitz)
+
+// Redacted puzzle state sent to the browser
+export type PuzzleView = {
+  puzzle: PuzzleRef; // Which puzzle this is
+  maxAttempts: number; // Guess limit
+  guesses: string[]; // Guesses made so far (in attempt order)
+  feedback: (GuessFeedback | null)[]; // Comparison row per guess (null = not in catalog)
+  won: boolean; // Whether one of the guesses was correct
+  isFinished: boolean; // Won or out of attempts
+  hints: RevealedHint[]; // Mode's hint sequence (values only once unlocked)
+  answer: string | null; // Answer name once the game is finished
+};
+
+// Guess limit of a puzzle
+export function maxAttemptsFor(puzzle: PuzzleRef) {
+  return puzzle.kind === "blitz" ? BLITZ_ATTEMPTS : MAX_ATTEMPTS;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                Name Helpers                                */
+/* -------------------------------------------------------------------------- */
+
+// Compare Pokémon names the same way everywhere (case-insensitive, trimmed)
+export function isSameName(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 planGuess                                  */
+/* -------------------------------------------------------------------------- */
+
+// Rule checks a guess can fail
+export type GuessRuleError =
+  | "GAME_FINISHED" // The game was already won
+  | "NO_ATTEMPTS_LEFT" // All attempts are used
+  | "DUPLICATE_GUESS"; // The same Pokémon was already guessed
+
+// Attempt an accepted guess is stored as
+export type GuessPlan = {
+  attemptNumber: number; // 1-based
+  correct: boolean; // Whether the guess matches the answer
+  isFinished: boolean; // Won or out of attempts
+};
+
+/*
+  Checks a new guess (canonical name) against the game's previous guesses
+  before it is stored.
+
+  The attempt number only depends on the previous guesses, so two guesses
+  racing each other plan the same attempt and the database's unique
+  (game, attempt) key rejects the second one.
+
+  Returns:
+  - the attempt to store, or an error code if the guess is rejected
+*/
+export function planGuess(
+  guessName: string,
+  previousGuesses: string[],
+  answerName: string,
+): GuessPlan | { error: GuessRuleError } {
+  if (previousGuesses.some((guess) => isSameName(guess, answerName))) {
+    return { error: "GAME_FINISHED" };
+  }
+
+  if (previousGuesses.length >= MAX_ATTEMPTS) {
+    return { error: "NO_ATTEMPTS_LEFT" };
+  }
+
+  if (previousGuesses.some((guess) => isSameName(guess, guessName))) {
+    return { error: "DUPLICATE_GUESS" };
+  }
+
+  const attemptNumber = previousGuesses.length + 1;
+  const correct = isSameName(guessName, answerName);
+
+  // The game is decided on a correct guess or when attempts run out
+  return {
+    attemptNumber,
+    correct,
+    isFinished: correct || attemptNumber >= MAX_ATTEMPTS,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               replayGuesses                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Replays guessed names against an answer, so the result is decided here
+  and not by whoever sent the names:
+  - Names are canonicalized; repeats count once
+  - Nothing after the correct guess counts
+
+  Returns:
+  - the canonical guesses and the result, or null if a name is not in the
+    catalog or there are more guesses than MAX_ATTEMPTS
+*/
+export function replayGuesses(names: string[], answerName: string) {
+  const guessNames: string[] = [];
+
+  for (const rawName of names) {
+    const name = resolveGuessName(rawName);
+    if (!name) return null;
+
+    if (!guessNames.some((guess) => isSameName(guess, name))) {
+      guessNames.push(name);
+    }
+
+    if (isSameName(name, answerName)) break;
+  }
+
+  if (guessNames.length > MAX_ATTEMPTS) return null;
+
+  const won = guessNames.some((guess) => isSameName(guess, answerName));
+
+  return {
+    guessNames,
+    won,
+    isFinished: won || guessNames.length >= MAX_ATTEMPTS,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              loadPuzzleAnswer                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Looks up the profile hints are built from. Throws if the name is not in
+  the catalog (daily rows should only ever reference catalog names).
+*/
+export async function loadPuzzleAnswer(pokemonName: string) {
+  const profile = getPokemonProfile(pokemonName);
+
+  if (!profile) {
+    throw new Error(`Pokémon "${pokemonName}" is not in the catalog`);
+  }
+
+  return profile;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              buildPuzzleView                               */
+/* -------------------------------------------------------------------------- */
+/*
+  Redacts an answer into what the player has earned so far:
+  - Hints (image included) follow the mode's hint sequence and are all
+    revealed once the game is over
+  - The name is only included once the game is finished
+  - Every guess gets a feedback row compared against the answer
+
+  puzzleKey is the puzzle's stable key (the progress key), so hints picked
+  per puzzle are the same for every player.
+  outcome lets admin tools preview a finished game without saving anything.
+*/
+export function buildPuzzleView(
+  puzzle: PuzzleRef,
+  puzzleKey: string,
+  answer: PokemonProfile,
+  guesses: string[],
+  outcome?: "won" | "lost",
+): PuzzleView {
+  const maxAttempts = maxAttemptsFor(puzzle);
+  const won =
+    outcome === undefined
+      ? guesses.some((guess) => isSameName(guess, answer.name))
+      : outcome === "won";
+  const isFinished =
+    outcome !== undefined || won || guesses.length >= maxAttempts;
+
+  return {
+    puzzle,
+    maxAttempts,
+    guesses,
+    feedback: guesses.map((guess) => {
+      const profile = getPokemonProfile(guess);
+      return profile ? compareGuess(profile, answer) : null;
+    }),
+    won,
+    isFinished,
+    hints: revealHints(
+      getHintSequence(puzzle),
+      answer,
+      { puzzle, puzzleKey },
+      guesses.length,
+      isFinished,
+    ),
+    answer: isFinished ? answer.name : null,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             Unlimited Puzzles                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Unlimited puzzles are identified by a random opaque id. The answer is
+  derived from the id with an HMAC keyed by PUZZLE_SECRET, so the id alone
+  does not reveal the Pokémon and nothing has to be stored per puzzle.
+
+  The id is also the shareable seed: /unlimited?seed=<id> plays the same
+  puzzle for everyone who opens the link. Pool filters are part of the link
+  too, and the answer is always drawn from the filtered pool.
+*/
+export function newUnlimitedPuzzleId() {
+  return randomBytes(12).toString("base64url");
+}
+
+// Ids from newUnlimitedPuzzleId (some slack for hand-written seeds)
+const UNLIMITED_ID_PATTERN = /^[A-Za-z0-9_-]{8,32}$/;
+
+export function isUnlimitedPuzzleId(value: unknown): value is string {
+  return typeof value === "string" && UNLIMITED_ID_PATTERN.test(value);
+}
+
+export async function getUnlimitedPokemonName(
+  puzzleId: string,
+  filters: UnlimitedFilters,
+): Promise<string | null> {
+  const digest = createHmac("sha256", process.env.PUZZLE_SECRET!)
+    .update(`unlimited:${puzzleId}`)
+    .digest();
+
+  // Nothing matches the filters: there is no puzzle to play
+  const pool = listFilteredAnswerPool(filters);
+  if (pool.length === 0) return null;
+
+  // Map the first 4 bytes of the digest onto the answer pool
+  return pool[digest.readUInt32BE(0) % pool.length];
+}
@@ -0,0 +1,166 @@
+/* -------------------------------------------------------------------------- */
+/*                               puzzleImage.ts                               */
+/* -------------------------------------------------------------------------- */
+/*
+  Progressive image reveal for the answer's artwork.
+
+  The artwork is revealed in stages (silhouette -> pixelated -> blurred ->
+  full). Every stage is rendered on the server by /api/puzzle-image, so the
+  page never contains the artwork URL before the player earns it.
+
+  The browser only gets an opaque token per unlocked stage: the answer name,
+  stage and puzzle key encrypted (AES-256-GCM) with a key derived from
+  PUZZLE_SECRET. Tokens are only issued by the image hint providers once
+  their stage is unlocked, so holding a token means the stage was earned.
+
+  The puzzle key is part of the token, so the same Pokémon gets unrelated
+  tokens in different puzzles: a token seen once (e.g. in a solved
+  archive puzzle) cannot give away the answer of another puzzle.
+
+  Exports:
+  - ImageStage / IMAGE_STAGES
+  - puzzleImageUrl(pokemonName, puzzleKey, stage): URL of an unlocked stage
+  - readImageToken(token): decrypts a token (null if invalid)
+  - renderImageStage(artwork, stage): renders a stage as PNG
+*/
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+} from "crypto"; // Token encryption
+import sharp from "sharp"; // Image processing
+
+export const IMAGE_STAGES = [
+  "silhouette", // Solid shape only
+  "pixelated", // Heavy pixelation
+  "blurred", // Strong blur
+  "full", // The artwork itself
+] as const;
+
+export type ImageStage = (typeof IMAGE_STAGES)[number];
+
+// Colour the silhouette is filled with (matches the page's text colour)
+const SILHOUETTE_COLOR = { r: 232, g: 238, b: 252 };
+
+// Width (in blocks) of the pixelated stage
+const PIXEL_BLOCKS = 14;
+
+// Blur sigma of the blurred stage
+const BLUR_SIGMA = 14;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Tokens                                   */
+/* -------------------------------------------------------------------------- */
+
+type ImageToken = {
+  name: string; // Answer Pokémon name
+  stage: ImageStage;
+  puzzle: string; // Puzzle key (per-puzzle nonce)
+};
+
+// Separate key so image tokens can't be confused with other signed values
+function tokenKey() {
+  return createHash("sha256")
+    .update(`puzzle-image:${process.env.PUZZLE_SECRET!}`)
+    .digest();
+}
+
+export function puzzleImageUrl(
+  pokemonName: string,
+  puzzleKey: string,
+  stage: ImageStage,
+) {
+  const token: ImageToken = { name: pokemonName, stage, puzzle: puzzleKey };
+  const payload = JSON.stringify(token);
+
+  // IV derived from the payload: a stage of a puzzle always gets the same
+  // URL (browser-cacheable), and different payloads (including the same
+  // Pokémon in another puzzle) never share an IV
+  const iv = createHmac("sha256", tokenKey())
+    .update(payload)
+    .digest()
+    .subarray(0, 12);
+  const cipher = createCipheriv("aes-256-gcm", tokenKey(), iv);
+
+  const encrypted = Buffer.concat([
+    cipher.update(payload, "utf8"),
+    cipher.final(),
+  ]);
+
+  // iv + auth tag + ciphertext
+  const encoded = Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString(
+    "base64url",
+  );
+
+  return `/api/puzzle-image?t=${encoded}`;
+}
+
+export function readImageToken(token: string): ImageToken | null {
+  try {
+    const raw = Buffer.from(token, "base64url");
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      tokenKey(),
+      raw.subarray(0, 12),
+    );
+    decipher.setAuthTag(raw.subarray(12, 28));
+
+    const decrypted = Buffer.concat([
+      decipher.update(raw.subarray(28)),
+      decipher.final(),
+    ]).toString("utf8");
+
+    const payload = JSON.parse(decrypted) as ImageToken;
+
+    if (!IMAGE_STAGES.includes(payload.stage)) return null;
+    if (typeof payload.name !== "string") return null;
+    if (typeof payload.puzzle !== "string") return null; // Older token format
+    return payload;
+  } catch {
+    // Tampered, truncated or made with another secret
+    return null;
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              renderImageStage                              */
+/* -------------------------------------------------------------------------- */
+export async function renderImageStage(artwork: Buffer, stage: ImageStage) {
+  const image = sharp(artwork).ensureAlpha();
+  const { width = 475, height = 475 } = await image.metadata();
+
+  switch (stage) {
+    case "silhouette": {
+      // Keep only the transparency mask and fill it with one colour
+      const alpha = await image.clone().extractChannel(3).toBuffer();
+
+      return sharp({
+        create: { width, height, channels: 3, background: SILHOUETTE_COLOR },
+      })
+        .joinChannel(alpha)
+        .png()
+        .toBuffer();
+    }
+
+    case "pixelated": {
+      // Shrink to a few blocks, then scale back up without smoothing
+      const small = await image
+        .clone()
+        .resize({ width: PIXEL_BLOCKS, kernel: "nearest" })
+        .toBuffer();
+
+      return sharp(small)
+        .resize({ width, height, kernel: "nearest" })
+        .png()
+        .toBuffer();
+    }
+
+    case "blurred":
+      return image.clone().blur(BLUR_SIGMA).png().toBuffer();
+
+    case "full":
+      return image.clone().png().toBuffer();
+  }
+}
@@ -0,0 +1,171 @@
+/* -------------------------------------------------------------------------- */
+/*                              puzzleSession.ts                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Server-only answer lookup for a puzzle reference.
+
+  Kept out of lib/actions on purpose: every export of a "use server" file
+  can be called from the browser, and these functions return the answer.
+  Pages, Server Actions and Route Handlers (e.g. the cry route) import
+  from here.
+
+  Exports:
+  - ResolvedPuzzle: answer + progress key of a puzzle
+  - fetchTodaysPokemon(track): today's daily_pokemon row of a track (the
+    fallback pick when the schedule has none, see lib/dailyFallback; its
+    id is null when the pick was not saved)
+  - fetchArchivedPokemon(date, track): a past daily_pokemon row of a track
+  - resolvePuzzle(puzzle): finds the answer + progress key for a puzzle
+*/
+
+import { createClient } from "@/lib/supabase/server"; // Server Supabase client
+import {
+  getUnlimitedPokemonName,
+  isUnlimitedPuzzleId,
+  type PuzzleRef,
+} from "@/lib/puzzle"; // Puzzle refs
+import { DEFAULT_TRACK, type DailyTrack } from "@/lib/tracks"; // Daily tracks
+import { UnlimitedFiltersSchema } from "@/lib/schemas"; // Untrusted filters
+import { unlimitedFiltersQuery } from "@/lib/unlimitedFilters"; // Canonical filters
+import {
+  createFallbackPokemon,
+  type DailyPuzzleRow,
+} from "@/lib/dailyFallback"; // Unscheduled days
+import { getPlayerToday } from "@/lib/playerTimeZone"; // Player's day
+import { isClockSimulated } from "@/lib/clock"; // QA clock (nothing saved)
+
+// Puzzle answer + the key its cookie progress is stored under
+export type ResolvedPuzzle = {
+  key: string; // e.g. "daily:classic:2026-02-17", "archive:classic:2026-02-17" or "unlimited:<id>"
+  answerName: string; // Correct Pokémon name (server-only)
+  dailyPokemonId: string | null; // daily_pokemon row (daily + archive only)
+};
+
+// Archive dates are plain calendar days
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/* -------------------------------------------------------------------------- */
+/*                             fetchTodaysPokemon                             */
+/* -------------------------------------------------------------------------- */
+/*
+  Loads a track's daily_pokemon row for the player's today (their date in
+  their timezone, see lib/timezone). When the schedule has no row for
+  that day, the fallback pick is saved as its row first.
+
+  Returns:
+  - daily_pokemon row object (or null if there is none and the fallback
+    could not be saved)
+*/
+export async function fetchTodaysPokemon(
+  track: DailyTrack = DEFAULT_TRACK,
+): Promise<DailyPuzzleRow | null> {
+  // Create server Supabase client
+  const supabase = await createClient();
+
+  // The player's date in YYYY-MM-DD format
+  const todayIso = await getPlayerToday();
+
+  // Query daily_pokemon for the row matching today's date
+  const { data: pokemonData } = await supabase
+    .from("daily_pokemon") // Daily puzzle table
+    .select("*") // Fetch all columns
+    .eq("available_on", todayIso) // Only today's record
+    .eq("track", track) // Of this track
+    .maybeSingle(); // One row or none
+
+  // Not scheduled: same fallback pick for everyone (saved on first access)
+  // (never saved while the clock is simulated)
+  if (!pokemonData) {
+    return createFallbackPokemon(todayIso, track, !(await isClockSimulated()));
+  }
+
+  // Return the row
+  return pokemonData;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                            fetchArchivedPokemon                            */
+/* -------------------------------------------------------------------------- */
+/*
+  Loads a track's daily_pokemon row of a past day. The player's today and
+  later days are not part of the archive (today is played as the live
+  daily puzzle).
+
+  Returns:
+  - daily_pokemon row object (or null if not found / not in the past)
+*/
+export async function fetchArchivedPokemon(date: string, track: DailyTrack) {
+  const todayIso = await getPlayerToday();
+
+  if (!ISO_DATE.test(date) || date >= todayIso) return null;
+
+  const supabase = await createClient();
+
+  const { data: pokemonData } = await supabase
+    .from("daily_pokemon")
+    .select("*")
+    .eq("available_on", date)
+    .eq("track", track)
+    .maybeSingle();
+
+  return pokemonData;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               resolvePuzzle                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Finds the answer for a puzzle reference.
+
+  Returns:
+  - ResolvedPuzzle, or null if there is no daily puzzle for that day (or
+    the unlimited id/filters are malformed or match no Pokémon, or it is a
+    blitz round)
+*/
+export async function resolvePuzzle(
+  puzzle: PuzzleRef,
+): Promise<ResolvedPuzzle | null> {
+  // Blitz rounds are only played through their run, which checks the clock
+  // (lib/actions/blitz), never through the regular guess actions
+  if (puzzle.kind === "blitz") return null;
+
+  // Unlimited: answer is derived from the opaque id and the pool filters
+  if (puzzle.kind === "unlimited") {
+    const filters = UnlimitedFiltersSchema.safeParse(puzzle.filters);
+    if (!isUnlimitedPuzzleId(puzzle.id) || !filters.success) return null;
+
+    const answerName = await getUnlimitedPokemonName(puzzle.id, filters.data);
+    if (!answerName) return null;
+
+    // Same seed with other filters is another puzzle
+    const query = unlimitedFiltersQuery(filters.data);
+
+    return {
+      key: query ? `unlimited:${puzzle.id}?${query}` : `unlimited:${puzzle.id}`,
+      answerName,
+      dailyPokemonId: null,
+    };
+  }
+
+  // Archive: answer comes from a past daily_pokemon row
+  if (puzzle.kind === "archive") {
+    const pokemon = await fetchArchivedPokemon(puzzle.date, puzzle.track);
+    if (!pokemon) return null;
+
+    return {
+      key: `archive:${pokemon.track}:${pokemon.available_on}`,
+      answerName: pokemon.pokemon_name,
+      dailyPokemonId: pokemon.id,
+    };
+  }
+
+  // Daily: answer comes from today's daily_pokemon row of the track
+  const pokemon = await fetchTodaysPokemon(puzzle.track);
+  if (!pokemon) return null;
+
+  return {
+    key: `daily:${pokemon.track}:${pokemon.available_on}`,
+    answerName: pokemon.pokemon_name,
+    dailyPokemonId: pokemon.id,
+  };
+}
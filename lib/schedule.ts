@@ -0,0 +1,400 @@
+/* -------------------------------------------------------------------------- */
+/*                                 schedule.ts                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Plans the daily puzzle schedule of a track (used by scripts/seed-pokemon).
+
+  Rules:
+  - Only missing dates are planned; days that already have a puzzle are
+    never changed (and still count for the repeat window and the balance)
+  - The same species never appears twice within `repeatWindow` consecutive
+    days, counting already scheduled days before and after each new one
+  - Days covered by a theme (lib/scheduleThemes) are picked from the
+    theme's answers
+  - Every week (Monday to Sunday) is balanced: the pick is the species that
+    shares the fewest generations, types and evolution stages with the
+    week's other days
+  - Answers are drawn from a Fisher–Yates shuffled deck, reshuffled once it
+    runs out, so every species comes up before any comes up again (ties in
+    the balance go to the species highest in the deck)
+  - The same seed, pool, themes and existing schedule always give the same
+    plan
+
+  Exports:
+  - ScheduledDay: one planned or existing day
+  - ScheduleReport: distribution of a plan
+  - SchedulePlanInput / SchedulePlan / planSchedule(input): plans the
+    missing dates and reports the distribution
+  - seededRandom(seed): deterministic random numbers in [0, 1)
+  - addDays(date, days): "YYYY-MM-DD" date arithmetic (UTC)
+*/
+
+import { createHash } from "crypto"; // Deterministic random numbers
+import { getPokemonProfile } from "@/lib/pokemon/repository"; // Generation, types, stage
+import { listFilteredAnswerPool, resolvePoolName } from "@/lib/pokemon/pools"; // Theme answers
+import { findTheme, type ScheduleTheme } from "@/lib/scheduleThemes"; // Theme rules
+import type { DailyTrack } from "@/lib/tracks"; // Daily tracks
+import { NO_FILTERS } from "@/lib/unlimitedFilters"; // Theme filters defaults
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export type ScheduledDay = {
+  date: string; // YYYY-MM-DD
+  pokemonName: string;
+};
+
+export type SchedulePlanInput = {
+  track: DailyTrack; // Track being planned (themes can be per track)
+  pool: string[]; // Answer pool (species names)
+  existing: ScheduledDay[]; // Days already in daily_pokemon (any range)
+  from: string; // First date that may be filled (YYYY-MM-DD)
+  days: number; // Number of dates to cover, starting at `from`
+  repeatWindow: number; // No species twice within this many days
+  seed: string; // Shuffle seed
+  themes: ScheduleTheme[]; // Theme rules (see lib/scheduleThemes)
+};
+
+// Distribution of the planned days (printed by the seed script)
+export type ScheduleReport = {
+  planned: number; // Days added
+  generations: Record<string, number>; // Planned days per generation
+  types: Record<string, number>; // Planned days per type (dual types count twice)
+  stages: Record<string, number>; // Planned days per evolution stage
+  themes: Record<string, number>; // Planned days per theme
+  themeFallbacks: string[]; // Themed dates that had to use the whole pool
+  worstWeek: {
+    generation: number; // Most days sharing a generation in one week
+    type: number; // Most days sharing a type in one week
+    stage: number; // Most days sharing a stage in one week
+  }; // Over every week with a planned day (existing days included)
+};
+
+export type SchedulePlan = {
+  days: ScheduledDay[]; // New days (missing dates only, in date order)
+  report: ScheduleReport;
+};
+
+// What the balance compares
+type Traits = {
+  generation: number;
+  types: string[];
+  stage: number;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                Date Helpers                                */
+/* -------------------------------------------------------------------------- */
+
+// "YYYY-MM-DD" -> days since epoch (UTC)
+function toDayNumber(date: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / 86400000;
+}
+
+// Days since epoch -> "YYYY-MM-DD"
+function fromDayNumber(dayNumber: number) {
+  return new Date(dayNumber * 86400000).toISOString().split("T")[0];
+}
+
+export function addDays(date: string, days: number) {
+  return fromDayNumber(toDayNumber(date) + days);
+}
+
+// Monday of the week a day is in (day 0 = Thursday 1970-01-01)
+function weekOf(dayNumber: number) {
+  return dayNumber - ((dayNumber + 3) % 7);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                seededRandom                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Deterministic random numbers in [0, 1): every call hashes the seed with a
+  counter (same seed -> same sequence).
+*/
+export function seededRandom(seed: string) {
+  let counter = 0;
+
+  return () => {
+    const digest = createHash("sha256")
+      .update(`schedule:${seed}:${counter++}`)
+      .digest();
+    return digest.readUInt32BE(0) / 2 ** 32;
+  };
+}
+
+// Unbiased Fisher–Yates shuffle (returns a new array)
+function shuffle<T>(items: T[], random: () => number) {
+  const result = [...items];
+
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+
+  return result;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  Helpers                                   */
+/* -------------------------------------------------------------------------- */
+
+// Answers of a theme that are in the pool
+function themePool(theme: ScheduleTheme, pool: string[]) {
+  const inPool = new Set(pool);
+  const names = theme.pokemon
+    ? theme.pokemon.map((name) => resolvePoolName(name))
+    : listFilteredAnswerPool({ ...NO_FILTERS, ...theme.filters });
+
+  return Array.from(
+    new Set(names.filter((name): name is string => !!name && inPool.has(name))),
+  );
+}
+
+// Adds 1 to a count
+function increment(counts: Record<string, number>, key: string | number) {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+// How often the most common value occurs (e.g. generations of a week)
+function mostShared(values: (string | number)[]) {
+  const counts: Record<string, number> = {};
+  values.forEach((value) => increment(counts, value));
+  return Math.max(0, ...Object.values(counts));
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                planSchedule                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Returns:
+  - the new days (missing dates only) and the distribution they produce
+
+  Throws when the pool is too small for the repeat window (a day would have
+  no species left to pick).
+*/
+export function planSchedule(input: SchedulePlanInput): SchedulePlan {
+  const { track, pool, existing, from, days, repeatWindow, seed, themes } =
+    input;
+
+  if (pool.length === 0) throw new Error("The answer pool is empty.");
+
+  const random = seededRandom(seed);
+
+  /* ----------------------------- Species Traits ---------------------------- */
+
+  const traitsCache = new Map<string, Traits | null>();
+
+  function traitsOf(name: string) {
+    if (!traitsCache.has(name)) {
+      const profile = getPokemonProfile(name);
+      traitsCache.set(
+        name,
+        profile
+          ? {
+              generation: profile.generation,
+              types: profile.types,
+              stage: profile.evolutionStage,
+            }
+          : null,
+      );
+    }
+    return traitsCache.get(name)!;
+  }
+
+  /* ---------------------------- Schedule So Far ---------------------------- */
+
+  // Days each species is scheduled on, and the species of every day
+  const usedOn = new Map<string, number[]>();
+  const byDay = new Map<number, string>();
+
+  function use(name: string, dayNumber: number) {
+    usedOn.set(name, [...(usedOn.get(name) ?? []), dayNumber]);
+    byDay.set(dayNumber, name);
+  }
+
+  for (const day of existing) {
+    use(day.pokemonName, toDayNumber(day.date));
+  }
+
+  // Whether a species would repeat within the window around a day
+  function isBlocked(name: string, dayNumber: number) {
+    return (usedOn.get(name) ?? []).some(
+      (other) => Math.abs(other - dayNumber) < repeatWindow,
+    );
+  }
+
+  // Species of the other scheduled days in a day's week
+  function weekDays(dayNumber: number) {
+    const monday = weekOf(dayNumber);
+    const names: string[] = [];
+
+    for (let day = monday; day < monday + 7; day++) {
+      const name = byDay.get(day);
+      if (day !== dayNumber && name) names.push(name);
+    }
+    return names;
+  }
+
+  // Generations, types and stages a species shares with the week
+  function weekPenalty(name: string, dayNumber: number) {
+    const traits = traitsOf(name);
+    if (!traits) return 0;
+
+    return weekDays(dayNumber).reduce((penalty, other) => {
+      const otherTraits = traitsOf(other);
+      if (!otherTraits) return penalty;
+
+      return (
+        penalty +
+        (otherTraits.generation === traits.generation ? 1 : 0) +
+        otherTraits.types.filter((type) => traits.types.includes(type)).length +
+        (otherTraits.stage === traits.stage ? 1 : 0)
+      );
+    }, 0);
+  }
+
+  // Best balanced, unblocked species of a shuffled list (-1 if none)
+  function pickIndex(candidates: string[], dayNumber: number) {
+    let best = -1;
+    let bestPenalty = Infinity;
+
+    for (let i = 0; i < candidates.length && bestPenalty > 0; i++) {
+      if (isBlocked(candidates[i], dayNumber)) continue;
+
+      const penalty = weekPenalty(candidates[i], dayNumber);
+      if (penalty < bestPenalty) {
+        best = i;
+        bestPenalty = penalty;
+      }
+    }
+    return best;
+  }
+
+  /* -------------------------------- Planning ------------------------------- */
+
+  const themePools = new Map(
+    themes.map((theme) => [theme, themePool(theme, pool)]),
+  );
+
+  let deck = shuffle(pool, random);
+  const plan: ScheduledDay[] = [];
+  const themeCounts: Record<string, number> = {};
+  const themeFallbacks: string[] = [];
+  const start = toDayNumber(from);
+
+  for (let dayNumber = start; dayNumber < start + days; dayNumber++) {
+    // Already scheduled: never touched
+    if (byDay.has(dayNumber)) continue;
+
+    const date = fromDayNumber(dayNumber);
+    let pokemonName: string | null = null;
+
+    // Themed day: the theme's answers first
+    const theme = findTheme(themes, date, track);
+    if (theme) {
+      const candidates = shuffle(themePools.get(theme) ?? [], random);
+      const index = pickIndex(candidates, dayNumber);
+
+      if (index === -1) {
+        themeFallbacks.push(date);
+      } else {
+        pokemonName = candidates[index];
+        increment(themeCounts, theme.name);
+
+        // Don't draw it again from the deck this round
+        const deckIndex = deck.indexOf(pokemonName);
+        if (deckIndex !== -1) deck.splice(deckIndex, 1);
+      }
+    }
+
+    if (!pokemonName) {
+      // Best species in the deck that keeps the window (fresh deck if none)
+      let index = pickIndex(deck, dayNumber);
+      if (index === -1) {
+        deck = shuffle(pool, random);
+        index = pickIndex(deck, dayNumber);
+      }
+
+      if (index === -1) {
+        throw new Error(
+          `No species left for ${date}: the repeat window (${repeatWindow} days) is too large for a pool of ${pool.length}.`,
+        );
+      }
+
+      [pokemonName] = deck.splice(index, 1);
+    }
+
+    if (deck.length === 0) deck = shuffle(pool, random);
+
+    use(pokemonName, dayNumber);
+    plan.push({ date, pokemonName });
+  }
+
+  return {
+    days: plan,
+    report: buildReport(plan, byDay, themeCounts, themeFallbacks, traitsOf),
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                buildReport                                 */
+/* -------------------------------------------------------------------------- */
+function buildReport(
+  plan: ScheduledDay[],
+  byDay: Map<number, string>,
+  themes: Record<string, number>,
+  themeFallbacks: string[],
+  traitsOf: (name: string) => Traits | null,
+): ScheduleReport {
+  const generations: Record<string, number> = {};
+  const types: Record<string, number> = {};
+  const stages: Record<string, number> = {};
+
+  for (const day of plan) {
+    const traits = traitsOf(day.pokemonName);
+    if (!traits) continue;
+
+    increment(generations, traits.generation);
+    traits.types.forEach((type) => increment(types, type));
+    increment(stages, traits.stage);
+  }
+
+  // Every week with a planned day, existing days included
+  const weeks = new Set(plan.map((day) => weekOf(toDayNumber(day.date))));
+  const worstWeek = { generation: 0, type: 0, stage: 0 };
+
+  for (const monday of weeks) {
+    const week: Traits[] = [];
+    for (let day = monday; day < monday + 7; day++) {
+      const name = byDay.get(day);
+      const traits = name ? traitsOf(name) : null;
+      if (traits) week.push(traits);
+    }
+
+    worstWeek.generation = Math.max(
+      worstWeek.generation,
+      mostShared(week.map((traits) => traits.generation)),
+    );
+    worstWeek.type = Math.max(
+      worstWeek.type,
+      mostShared(week.flatMap((traits) => traits.types)),
+    );
+    worstWeek.stage = Math.max(
+      worstWeek.stage,
+      mostShared(week.map((traits) => traits.stage)),
+    );
+  }
+
+  return {
+    planned: plan.length,
+    generations,
+    types,
+    stages,
+    themes,
+    themeFallbacks,
+    worstWeek,
+  };
+}
@@ -0,0 +1,96 @@
+/* -------------------------------------------------------------------------- */
+/*                              scheduleThemes.ts                             */
+/* -------------------------------------------------------------------------- */
+/*
+  Theme rules for the daily schedule (admin config, read by
+  scripts/seed-pokemon through lib/schedule).
+
+  A theme limits the answers of the days it covers, every year:
+  - from / to: "MM-DD" (inclusive; a range may wrap around New Year)
+  - filters: same filters as unlimited mode (generation, type, stage,
+    difficulty); empty lists match everything
+  - pokemon: a fixed list of answers instead of filters
+  - tracks: only these daily tracks (every track when omitted)
+
+  Only days that are still missing are planned, so a theme never changes a
+  day that is already scheduled. When no species of a theme fits the
+  repeat window, the day falls back to the whole pool (and the planner
+  reports it).
+
+  Exports:
+  - ScheduleTheme: one theme rule
+  - SCHEDULE_THEMES: the configured themes (first match wins)
+  - findTheme(themes, date, track): theme covering a date on a track
+*/
+
+import type { DailyTrack } from "@/lib/tracks"; // Daily tracks
+import type { UnlimitedFilters } from "@/lib/unlimitedFilters"; // Pool filters
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export type ScheduleTheme = {
+  name: string; // Shown in the planner report
+  from: string; // First day, "MM-DD"
+  to: string; // Last day, "MM-DD" (same as from for a single date)
+  filters?: Partial<UnlimitedFilters>; // Answers matching these filters...
+  pokemon?: string[]; // ...or exactly these answers
+  tracks?: DailyTrack[]; // Limit to some tracks (default: all)
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                   Config                                   */
+/* -------------------------------------------------------------------------- */
+
+export const SCHEDULE_THEMES: ScheduleTheme[] = [
+  {
+    name: "Halloween week",
+    from: "10-25",
+    to: "10-31",
+    filters: { types: ["ghost"] },
+  },
+  {
+    name: "Pokémon Day starters",
+    from: "02-27",
+    to: "02-27",
+    pokemon: [
+      "bulbasaur", "charmander", "squirtle",
+      "chikorita", "cyndaquil", "totodile",
+      "treecko", "torchic", "mudkip",
+      "turtwig", "chimchar", "piplup",
+      "snivy", "tepig", "oshawott",
+      "chespin", "fennekin", "froakie",
+      "rowlet", "litten", "popplio",
+      "grookey", "scorbunny", "sobble",
+      "sprigatito", "fuecoco", "quaxly",
+    ],
+  },
+];
+
+/* -------------------------------------------------------------------------- */
+/*                                 findTheme                                  */
+/* -------------------------------------------------------------------------- */
+/*
+  date is "YYYY-MM-DD". Returns the first theme covering it on the track,
+  or null.
+*/
+export function findTheme(
+  themes: ScheduleTheme[],
+  date: string,
+  track: DailyTrack,
+): ScheduleTheme | null {
+  const monthDay = date.slice(5); // "MM-DD" compares as a string
+
+  return (
+    themes.find((theme) => {
+      if (theme.tracks && !theme.tracks.includes(track)) return false;
+
+      // Wrapping range (e.g. "12-30" to "01-02")
+      if (theme.from > theme.to) {
+        return monthDay >= theme.from || monthDay <= theme.to;
+      }
+      return monthDay >= theme.from && monthDay <= theme.to;
+    }) ?? null
+  );
+}
@@ -1,4 +1,12 @@
 import * as z from "zod";
+import { DAILY_TRACKS, DEFAULT_TRACK } from "@/lib/tracks";
+import {
+  DIFFICULTIES,
+  EVOLUTION_STAGES,
+  GENERATIONS,
+  POKEMON_TYPES,
+} from "@/lib/unlimitedFilters";
+import { isTimeZone } from "@/lib/timezone";
 
 export const SignupFormSchema = z.object({
   username: z
@@ -41,3 +49,44 @@ export type FormState =
       message?: string;
     }
   | undefined;
+
+// Most local games accepted in one transfer (about a year of daily puzzles)
+export const MAX_TRANSFER_RECORDS = 365;
+
+// Local (browser) game records sent to transferLocalStatsToUser.
+// Only the date, track and the guessed names are used; the server replays
+// the guesses against daily_pokemon to decide the result.
+export const LocalGamesTransferSchema = z
+  .array(
+    z.object({
+      date: z.iso.date({ error: "Invalid date." }),
+      track: z
+        .enum(DAILY_TRACKS.map((track) => track.id))
+        .default(DEFAULT_TRACK),
+      guessNames: z
+        .array(z.string().trim().min(1).max(64))
+        .max(6, { error: "A game has at most 6 guesses." }),
+    }),
+  )
+  .max(MAX_TRANSFER_RECORDS, { error: "Too many games to transfer." });
+
+// Unlimited pool filters coming from the browser (puzzle refs, preferences)
+export const UnlimitedFiltersSchema = z.object({
+  generations: z.array(z.literal(GENERATIONS)).max(GENERATIONS.length),
+  types: z.array(z.enum(POKEMON_TYPES)).max(POKEMON_TYPES.length),
+  stages: z.array(z.literal(EVOLUTION_STAGES)).max(EVOLUTION_STAGES.length),
+  difficulty: z.enum(DIFFICULTIES).nullable(),
+});
+
+// Timezone setting kept in the browser's cookie (lib/playerTimeZone)
+export const TimeZoneSettingSchema = z.object({
+  timeZone: z.string().refine(isTimeZone),
+  previousTimeZone: z.string().refine(isTimeZone).nullable(),
+  changedAt: z.number().int().nonnegative().nullable(),
+});
+
+// Simulated time set by an admin (lib/actions/clock), read as UTC
+export const SimulatedNowSchema = z.iso.datetime({
+  local: true,
+  error: "Invalid date and time.",
+});
@@ -0,0 +1,56 @@
+/* -------------------------------------------------------------------------- */
+/*                               signedCookie.ts                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Signed cookie values: JSON the browser can hold but not change.
+
+  Value: base64url(JSON) + "." + HMAC-SHA256 signature (PUZZLE_SECRET)
+
+  A cookie with its own prefix (e.g. "clock:") is signed over prefix +
+  payload, so its value is not valid as any other cookie.
+
+  Server-only (signs with the puzzle secret).
+
+  Exports:
+  - encodeSigned(value, prefix?): the signed cookie value
+  - decodeSigned(raw, prefix?): the value back (null if tampered or
+    malformed)
+*/
+
+import { createHmac, timingSafeEqual } from "crypto"; // Cookie signing
+
+// HMAC signature of the encoded payload
+function sign(payload: string, prefix: string) {
+  return createHmac("sha256", process.env.PUZZLE_SECRET!)
+    .update(`${prefix}${payload}`)
+    .digest("base64url");
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                encodeSigned                                */
+/* -------------------------------------------------------------------------- */
+export function encodeSigned(value: unknown, prefix = "") {
+  const payload = Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${payload}.${sign(payload, prefix)}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                decodeSigned                                */
+/* -------------------------------------------------------------------------- */
+export function decodeSigned(raw: string, prefix = ""): unknown {
+  const [payload, signature] = raw.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, prefix));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * localStorage utilities for the player's sound preference
+ *
+ * The mute setting is per browser (signed in or not) and is respected by
+ * every audio hint (e.g. the Pokémon cry).
+ */
+
+const STORAGE_KEY = "pokedexdle_muted";
+
+/**
+ * Whether the player has muted sounds
+ */
+export function isMuted(): boolean {
+  if (typeof window === "undefined") return false;
+
+  try {
+    return localStorage.getItem(STORAGE_KEY) === "true";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Store the player's mute setting
+ */
+export function setMuted(muted: boolean): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, String(muted));
+  } catch {
+    // Storage unavailable (e.g. private mode): setting lasts for this page only
+  }
+}
@@ -0,0 +1,14 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "./database";
+
+// Service role client: bypasses RLS. Server-only, for writes players must
+// not be able to make themselves (e.g. blitz scores).
+export function createAdminClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: { persistSession: false, autoRefreshToken: false },
+    },
+  );
+}
@@ -47,29 +47,118 @@ export type Database = {
   public: {
     /* ------------------------------- Tables ------------------------------- */
     Tables: {
+      /* ---------------------------- admin_alerts --------------------------- */
+      /*
+        admin_alerts:
+        - Things an admin should look at (e.g. a daily puzzle picked by the
+          fallback because the schedule ran out).
+        - Readable (and resolvable) by admins, written by the server
+          (service role).
+      */
+      admin_alerts: {
+        Row: {
+          created_at: string; // Timestamp the alert was recorded
+          details: Json; // Extra data (e.g. date, track, Pokémon)
+          id: string; // Primary key
+          kind: string; // Alert kind, e.g. "daily_fallback"
+          message: string; // Human-readable summary
+          resolved_at: string | null; // Timestamp an admin resolved it (null = open)
+        };
+
+        Insert: {
+          created_at?: string; // Optional (defaults to now)
+          details?: Json; // Optional (defaults to {})
+          id?: string; // Optional if DB generates it
+          kind: string; // Required
+          message: string; // Required
+          resolved_at?: string | null; // Optional
+        };
+
+        Update: {
+          created_at?: string; // Optional
+          details?: Json; // Optional
+          id?: string; // Optional
+          kind?: string; // Optional
+          message?: string; // Optional
+          resolved_at?: string | null; // Optional
+        };
+
+        Relationships: [];
+      };
+
+      /* ----------------------------- blitz_runs ---------------------------- */
+      /*
+        blitz_runs:
+        - One timed blitz run of a logged-in player (clock + score).
+        - Readable by the player, only written by the server (service role).
+        - version is bumped on every guess (conditional updates).
+      */
+      blitz_runs: {
+        Row: {
+          ends_at: string; // Timestamp the run ends
+          id: string; // Primary key (answers are derived from it)
+          round: number; // Current round (1-based)
+          round_guesses: string[]; // Guesses in the current round
+          round_started_at: string; // Timestamp the current round started
+          score: number; // Rounds solved
+          started_at: string; // Timestamp the run started
+          user_id: string; // User id (auth.users)
+          version: number; // Optimistic concurrency counter
+        };
+
+        Insert: {
+          ends_at: string; // Required
+          id?: string; // Optional if DB generates it
+          round?: number; // Optional (defaults to 1)
+          round_guesses?: string[]; // Optional (defaults to empty)
+          round_started_at?: string; // Optional (defaults to now)
+          score?: number; // Optional (defaults to 0)
+          started_at?: string; // Optional (defaults to now)
+          user_id: string; // Required
+          version?: number; // Optional (defaults to 0)
+        };
+
+        Update: {
+          ends_at?: string; // Optional
+          id?: string; // Optional
+          round?: number; // Optional
+          round_guesses?: string[]; // Optional
+          round_started_at?: string; // Optional
+          score?: number; // Optional
+          started_at?: string; // Optional
+          user_id?: string; // Optional
+          version?: number; // Optional
+        };
+
+        Relationships: []; // Only references auth.users
+      };
+
       /* ---------------------------- daily_pokemon -------------------------- */
       /*
         daily_pokemon:
-        - Defines which Pokémon is active for a given day.
-        - available_on is the date key.
+        - Defines which Pokémon is active for a given day on each track.
+        - (available_on, track) is the key.
       */
       daily_pokemon: {
         Row: {
           available_on: string; // Date string (YYYY-MM-DD)
           id: string; // Primary key
           pokemon_name: string; // Correct Pokémon name for that day
+          track: "classic" | "silhouette" | "dexEntry"; // Daily track this puzzle belongs to
         };
 
         Insert: {
           available_on: string; // Required on insert
           id?: string; // Optional if DB generates it
           pokemon_name: string; // Required on insert
+          track?: "classic" | "silhouette" | "dexEntry"; // Optional (defaults to "classic")
         };
 
         Update: {
           available_on?: string; // Optional on update
           id?: string; // Optional on update
           pokemon_name?: string; // Optional on update
+          track?: "classic" | "silhouette" | "dexEntry"; // Optional on update
         };
 
         Relationships: []; // No foreign keys defined for this table
@@ -78,34 +167,47 @@ export type Database = {
       /* -------------------------------- games ----------------------------- */
       /*
         games:
-        - Represents one user's play session for a specific daily_pokemon row.
+        - Represents one user's play session for a specific daily_pokemon row
+          (daily/archive) or unlimited puzzle (seed + filters).
         - Links to daily_pokemon via daily_pokemon_id.
         - Links to user via user_id.
       */
       games: {
         Row: {
           created_at: string | null; // Timestamp (nullable)
-          daily_pokemon_id: string; // FK -> daily_pokemon.id
+          daily_pokemon_id: string | null; // FK -> daily_pokemon.id (null for unlimited games)
           id: string; // Primary key
+          imported: boolean; // Imported from local (browser) history
           is_finished: boolean | null; // Whether game is finished
+          mode: "daily" | "archive" | "unlimited"; // Live daily game, archive replay or unlimited game
+          puzzle_filters: string | null; // Unlimited: canonical pool filters query ("" = none)
+          puzzle_seed: string | null; // Unlimited: puzzle seed
           user_id: string; // User id (auth.users)
           won: boolean | null; // Win/loss (true/false/null)
         };
 
         Insert: {
           created_at?: string | null; // Optional (DB can set)
-          daily_pokemon_id: string; // Required
+          daily_pokemon_id?: string | null; // Required for daily/archive games
           id?: string; // Optional if DB generates it
+          imported?: boolean; // Optional (defaults to false)
           is_finished?: boolean | null; // Optional
+          mode?: "daily" | "archive" | "unlimited"; // Optional (defaults to "daily")
+          puzzle_filters?: string | null; // Required for unlimited games
+          puzzle_seed?: string | null; // Required for unlimited games
           user_id: string; // Required
           won?: boolean | null; // Optional
         };
 
         Update: {
           created_at?: string | null; // Optional
-          daily_pokemon_id?: string; // Optional
+          daily_pokemon_id?: string | null; // Optional
           id?: string; // Optional
+          imported?: boolean; // Optional
           is_finished?: boolean | null; // Optional
+          mode?: "daily" | "archive" | "unlimited"; // Optional
+          puzzle_filters?: string | null; // Optional
+          puzzle_seed?: string | null; // Optional
           user_id?: string; // Optional
           won?: boolean | null; // Optional
         };
@@ -175,6 +277,7 @@ export type Database = {
           - username-based login lookup
           - admin flag
           - storing normalized email/username
+          - the player's timezone (which daily puzzle is "today")
       */
       profiles: {
         Row: {
@@ -182,6 +285,9 @@ export type Database = {
           email: string; // User email (normalized)
           id: string; // User id (matches auth.users.id)
           username: string; // Username (normalized)
+          timezone: string | null; // Chosen IANA zone (null = never chosen)
+          previous_timezone: string | null; // Zone before the last change
+          timezone_changed_at: string | null; // When the zone was last changed
         };
 
         Insert: {
@@ -189,6 +295,9 @@ export type Database = {
           email: string; // Required
           id: string; // Required
           username: string; // Required
+          timezone?: string | null; // Optional
+          previous_timezone?: string | null; // Optional
+          timezone_changed_at?: string | null; // Optional
         };
 
         Update: {
@@ -196,6 +305,9 @@ export type Database = {
           email?: string; // Optional
           id?: string; // Optional
           username?: string; // Optional
+          timezone?: string | null; // Optional
+          previous_timezone?: string | null; // Optional
+          timezone_changed_at?: string | null; // Optional
         };
 
         Relationships: []; // No explicit FK listed here
@@ -0,0 +1,233 @@
+/* -------------------------------------------------------------------------- */
+/*                                 timezone.ts                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Which daily puzzle is "today" for a player.
+
+  Every player (or browser, when logged out) has a timezone; the daily
+  puzzle of a day (daily_pokemon.available_on) is today from midnight to
+  midnight in that zone. Players that never chose one get the browser's
+  zone once it is detected, and UTC until then.
+
+  Changing zones must not skip a day (e.g. jumping from the US to New
+  Zealand) or bring one back (the other way around). So a change does not
+  apply right away: the old zone keeps deciding "today" until the first
+  moment both zones show the same date, and the new zone takes over from
+  there, without a jump. Zones a day or more apart never show the same
+  date:
+  - new zone ahead: it takes over after SWITCH_LIMIT_MS
+  - new zone behind (e.g. Kiritimati to Pago Pago): "today" stays at the
+    date of the change until the new zone reaches that date, and the new
+    zone takes over then
+  Before the switch, "today" never passes the date the new zone shows at
+  the switch, so the date never goes backwards.
+
+  Every function takes the current time (`at`, ms) instead of reading the
+  system clock: on the server it comes from lib/clock, which QA can move.
+
+  Safe to import from client components (no server-only code).
+
+  Exports:
+  - DEFAULT_TIME_ZONE: zone of players that never chose one
+  - TimeZoneSetting / DEFAULT_TIME_ZONE_SETTING: the stored setting
+  - isTimeZone(value): whether a value is a known IANA zone
+  - dateInTimeZone(timeZone, at): "YYYY-MM-DD" in a zone
+  - effectiveTimeZone(setting, at): the zone deciding "today" right now
+  - playerToday(setting, at): today's date for the player
+  - nextRolloverAt(setting, at): when the player's next day starts
+  - previousDate(date): the day before a "YYYY-MM-DD" date
+*/
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+// A change applies at the latest this long after it was made
+const SWITCH_LIMIT_MS = 48 * 60 * 60 * 1000;
+
+/* -------------------------------------------------------------------------- */
+/*                                   Types                                    */
+/* -------------------------------------------------------------------------- */
+
+export type TimeZoneSetting = {
+  timeZone: string; // Chosen zone (IANA name, e.g. "America/New_York")
+  previousTimeZone: string | null; // Zone before the last change
+  changedAt: number | null; // When the last change was made (ms), null = never chosen
+};
+
+export const DEFAULT_TIME_ZONE_SETTING: TimeZoneSetting = {
+  timeZone: DEFAULT_TIME_ZONE,
+  previousTimeZone: null,
+  changedAt: null,
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                Date Helpers                                */
+/* -------------------------------------------------------------------------- */
+
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || value.length === 0) return false;
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall clock of an instant in a zone
+function wallClock(timeZone: string, at: number) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((entry) => entry.type === type)?.value);
+
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+}
+
+export function dateInTimeZone(timeZone: string, at: number) {
+  const { year, month, day } = wallClock(timeZone, at);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+export function previousDate(date: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day - 1)).toISOString().split("T")[0];
+}
+
+// How far a zone's wall clock is ahead of UTC at an instant (ms)
+function offsetAt(timeZone: string, at: number) {
+  const clock = wallClock(timeZone, at);
+  const asUtc = Date.UTC(
+    clock.year,
+    clock.month - 1,
+    clock.day,
+    clock.hour,
+    clock.minute,
+    clock.second,
+  );
+  return asUtc - Math.floor(at / 1000) * 1000;
+}
+
+// First instant of the next day in a zone
+function startOfNextDay(timeZone: string, at: number) {
+  const { year, month, day } = wallClock(timeZone, at);
+  const midnight = Date.UTC(year, month - 1, day + 1);
+
+  // Twice, in case the offset changes in between (daylight saving time)
+  const guess = midnight - offsetAt(timeZone, at);
+  return midnight - offsetAt(timeZone, guess);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 switchTime                                 */
+/* -------------------------------------------------------------------------- */
+/*
+  When the chosen zone takes over from the previous one: the first moment
+  after the change at which both zones show the same date (checked at the
+  change itself and at every midnight of either zone after it).
+
+  No such moment (zones a day or more apart): the first midnight of the
+  new zone on or after the date of the change if it is behind, else the
+  limit.
+*/
+function switchTime(setting: TimeZoneSetting) {
+  const { timeZone, previousTimeZone, changedAt } = setting;
+  if (!previousTimeZone || changedAt === null) return 0;
+
+  const limit = changedAt + SWITCH_LIMIT_MS;
+  const moments = [changedAt];
+
+  for (const zone of [timeZone, previousTimeZone]) {
+    for (let at = startOfNextDay(zone, changedAt); at < limit; ) {
+      moments.push(at);
+      at = startOfNextDay(zone, at);
+    }
+  }
+
+  const match = moments
+    .sort((a, b) => a - b)
+    .find(
+      (at) => dateInTimeZone(timeZone, at) === dateInTimeZone(previousTimeZone, at),
+    );
+
+  if (match !== undefined) return match;
+
+  // New zone behind: wait until it reaches the date of the change
+  const changedOn = dateInTimeZone(previousTimeZone, changedAt);
+  if (dateInTimeZone(timeZone, changedAt) < changedOn) {
+    let at = startOfNextDay(timeZone, changedAt);
+    while (dateInTimeZone(timeZone, at) < changedOn) {
+      at = startOfNextDay(timeZone, at);
+    }
+    return at;
+  }
+
+  return limit;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             effectiveTimeZone                              */
+/* -------------------------------------------------------------------------- */
+export function effectiveTimeZone(setting: TimeZoneSetting, at: number) {
+  if (setting.previousTimeZone && at < switchTime(setting)) {
+    return setting.previousTimeZone;
+  }
+  return setting.timeZone;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                playerToday                                 */
+/* -------------------------------------------------------------------------- */
+export function playerToday(setting: TimeZoneSetting, at: number) {
+  const { timeZone, previousTimeZone } = setting;
+  if (!previousTimeZone) return dateInTimeZone(timeZone, at);
+
+  const switchAt = switchTime(setting);
+  if (at >= switchAt) return dateInTimeZone(timeZone, at);
+
+  // Held by the previous zone, but not past the date the switch lands on
+  const held = dateInTimeZone(previousTimeZone, at);
+  const landing = dateInTimeZone(timeZone, switchAt);
+  return held < landing ? held : landing;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               nextRolloverAt                               */
+/* -------------------------------------------------------------------------- */
+/*
+  Returns:
+  - the instant (ms) the player's next daily puzzle becomes available
+*/
+export function nextRolloverAt(setting: TimeZoneSetting, at: number) {
+  const { timeZone, previousTimeZone } = setting;
+  const switchAt = switchTime(setting);
+
+  if (!previousTimeZone || at >= switchAt) return startOfNextDay(timeZone, at);
+
+  // The previous zone's midnight, unless "today" is held at the switch date
+  const today = playerToday(setting, at);
+  const next = startOfNextDay(previousTimeZone, at);
+  if (next < switchAt && playerToday(setting, next) !== today) return next;
+
+  // The switch itself if it lands on a new date, else the chosen zone's
+  // midnight after it
+  return playerToday(setting, switchAt) !== today
+    ? switchAt
+    : startOfNextDay(timeZone, switchAt);
+}
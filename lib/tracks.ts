@@ -0,0 +1,55 @@
+/* -------------------------------------------------------------------------- */
+/*                                 tracks.ts                                  */
+/* -------------------------------------------------------------------------- */
+/*
+  Daily puzzle tracks.
+
+  Every track is an independent daily puzzle: it has its own daily_pokemon
+  row per day (daily_pokemon.track), its own hint sequence
+  (lib/hints/sequences) and its own stats and streak.
+
+  Safe to import from client components (no server-only code).
+
+  Exports:
+  - DAILY_TRACKS: every track, in the order they are shown
+  - DailyTrack: track id
+  - DEFAULT_TRACK: the track used when none is given
+  - isDailyTrack(value): type guard for untrusted input
+  - parseTrack(value): track id from a query string (default if invalid)
+  - getTrack(id): track details
+*/
+
+export const DAILY_TRACKS = [
+  {
+    id: "classic",
+    label: "Classic",
+    description: "Hints, image and cry unlock as you guess",
+  },
+  {
+    id: "silhouette",
+    label: "Silhouette",
+    description: "Only the silhouette, from the first guess to the last",
+  },
+  {
+    id: "dexEntry",
+    label: "Pokédex Entry",
+    description: "Only a redacted Pokédex entry",
+  },
+] as const;
+
+export type DailyTrack = (typeof DAILY_TRACKS)[number]["id"];
+
+export const DEFAULT_TRACK: DailyTrack = "classic";
+
+export function isDailyTrack(value: unknown): value is DailyTrack {
+  return DAILY_TRACKS.some((track) => track.id === value);
+}
+
+// Unknown or missing values fall back to the default track
+export function parseTrack(value: string | null | undefined): DailyTrack {
+  return isDailyTrack(value) ? value : DEFAULT_TRACK;
+}
+
+export function getTrack(id: DailyTrack) {
+  return DAILY_TRACKS.find((track) => track.id === id)!;
+}
@@ -1,11 +1,13 @@
-import { transferLocalStatsToUser, LocalGameRecord } from "@/lib/actions/stats";
-import { getStoredGames, clearStoredGames } from "@/lib/cookieStats";
+import { transferLocalStatsToUser, LocalGameRecord, type TransferResult } from "@/lib/actions/stats";
+import { getStoredGames, removeStoredGames, getRecordTrack } from "@/lib/cookieStats";
+import { MAX_TRANSFER_RECORDS } from "@/lib/schemas";
 
 /**
- * Transfers local stats to the signed-in user's account and clears local stats.
+ * Transfers local stats to the signed-in user's account and removes the
+ * local records the server imported (the rest stay for a later try).
  * Call this after signup/login.
  */
-export async function transferStatsOnSignup(): Promise<{ inserted: number }> {
+export async function transferStatsOnSignup(): Promise<TransferResult> {
   console.log('[transferStats] Starting transfer process');
   
   // Get local stats
@@ -14,18 +16,26 @@ export async function transferStatsOnSignup(): Promise<{ inserted: number }> {
   
   if (!localGames || localGames.length === 0) {
     console.log('[transferStats] No local games to transfer');
-    return { inserted: 0 };
+    return { inserted: 0, skipped: 0, imported: [] };
   }
 
   console.log('[transferStats] Calling server action transferLocalStatsToUser...');
-  // Send to server
-  const result = await transferLocalStatsToUser(localGames);
+  // Send to server (only dates, tracks + guessed names; the server decides results)
+  // The server accepts at most MAX_TRANSFER_RECORDS, so send the most recent ones
+  const result = await transferLocalStatsToUser(
+    localGames.slice(-MAX_TRANSFER_RECORDS).map((game) => ({
+      date: game.date,
+      track: getRecordTrack(game),
+      guessNames: game.guessNames ?? [],
+    })),
+  );
   console.log('[transferStats] Server action returned:', result);
 
-  // Clear local stats after transfer
-  console.log('[transferStats] Clearing local storage...');
-  clearStoredGames();
-  console.log('[transferStats] Local storage cleared');
+  // Only drop what the account now holds (a failed call throws above and
+  // keeps everything)
+  console.log('[transferStats] Removing', result.imported.length, 'imported games from local storage...');
+  removeStoredGames(result.imported);
+  console.log('[transferStats] Local storage updated');
 
   return result;
 }
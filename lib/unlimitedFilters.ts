@@ -0,0 +1,131 @@
+/* -------------------------------------------------------------------------- */
+/*                             unlimitedFilters.ts                            */
+/* -------------------------------------------------------------------------- */
+/*
+  Filters for the unlimited answer pool (generations, types, evolution
+  stage and difficulty tier).
+
+  Filters travel with the puzzle: they are part of the /unlimited URL next
+  to the seed (?seed=...&gen=1,2&type=fire), so a shared link draws from
+  the same pool and therefore the same Pokémon. An empty list means "no
+  restriction".
+
+  Safe to import from client components (no catalog access here; the pool
+  itself is filtered in lib/pokemon/pools).
+
+  Exports:
+  - GENERATIONS / POKEMON_TYPES / EVOLUTION_STAGES / DIFFICULTIES: choices
+  - Difficulty / UnlimitedFilters
+  - NO_FILTERS: the unrestricted pool
+  - hasFilters(filters): whether anything is restricted
+  - parseUnlimitedFilters(params): filters from URL params (invalid values dropped)
+  - unlimitedFiltersQuery(filters): canonical URL params for filters
+*/
+
+export const GENERATIONS = [1, 2, 3, 4, 5, 6, 7, 8, 9] as const;
+
+export const POKEMON_TYPES = [
+  "normal",
+  "fire",
+  "water",
+  "grass",
+  "electric",
+  "ice",
+  "fighting",
+  "poison",
+  "ground",
+  "flying",
+  "psychic",
+  "bug",
+  "rock",
+  "ghost",
+  "dragon",
+  "dark",
+  "steel",
+  "fairy",
+] as const;
+
+export const EVOLUTION_STAGES = [1, 2, 3] as const;
+
+export const DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+export type Difficulty = (typeof DIFFICULTIES)[number];
+
+export type UnlimitedFilters = {
+  generations: number[]; // Generation numbers (any of)
+  types: string[]; // Type names (the Pokémon has any of them)
+  stages: number[]; // Evolution stages (any of)
+  difficulty: Difficulty | null; // Difficulty tier (null = any)
+};
+
+export const NO_FILTERS: UnlimitedFilters = {
+  generations: [],
+  types: [],
+  stages: [],
+  difficulty: null,
+};
+
+export function hasFilters(filters: UnlimitedFilters) {
+  return (
+    filters.generations.length > 0 ||
+    filters.types.length > 0 ||
+    filters.stages.length > 0 ||
+    filters.difficulty !== null
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               URL Encoding                                 */
+/* -------------------------------------------------------------------------- */
+
+type ParamSource = URLSearchParams | Record<string, string | string[] | undefined>;
+
+// Read one param from either URLSearchParams or Next's searchParams object
+function readParam(params: ParamSource, name: string) {
+  const value =
+    params instanceof URLSearchParams ? params.get(name) : params[name];
+  return (Array.isArray(value) ? value[0] : value) ?? "";
+}
+
+// Comma-separated list, keeping only allowed values (sorted, no duplicates)
+function readList<T extends string | number>(
+  params: ParamSource,
+  name: string,
+  allowed: readonly T[],
+) {
+  const values = readParam(params, name).split(",");
+  return allowed.filter((option) => values.includes(String(option)));
+}
+
+export function parseUnlimitedFilters(params: ParamSource): UnlimitedFilters {
+  const difficulty = readParam(params, "difficulty");
+
+  return {
+    generations: readList(params, "gen", GENERATIONS),
+    types: readList(params, "type", POKEMON_TYPES),
+    stages: readList(params, "stage", EVOLUTION_STAGES),
+    difficulty: DIFFICULTIES.find((tier) => tier === difficulty) ?? null,
+  };
+}
+
+// Same filters -> same string (used in URLs and progress keys)
+export function unlimitedFiltersQuery(filters: UnlimitedFilters) {
+  const params = new URLSearchParams();
+
+  // Re-parse so the order and allowed values are canonical
+  const canonical = parseUnlimitedFilters({
+    gen: filters.generations.join(","),
+    type: filters.types.join(","),
+    stage: filters.stages.join(","),
+    difficulty: filters.difficulty ?? undefined,
+  });
+
+  if (canonical.generations.length > 0) {
+    params.set("gen", canonical.generations.join(","));
+  }
+  if (canonical.types.length > 0) params.set("type", canonical.types.join(","));
+  if (canonical.stages.length > 0) params.set("stage", canonical.stages.join(","));
+  if (canonical.difficulty) params.set("difficulty", canonical.difficulty);
+
+  return params.toString();
+}
@@ -0,0 +1,53 @@
+/* -------------------------------------------------------------------------- */
+/*                           unlimitedPreferences.ts                          */
+/* -------------------------------------------------------------------------- */
+/*
+  The player's saved unlimited pool filters.
+
+  Stored per browser (signed in or not) in a cookie, so the server can
+  start a new unlimited puzzle with them before anything is rendered. The
+  value is only a preference: it is validated on every read and the answer
+  never depends on it directly (new puzzles copy it into their URL).
+
+  Exports:
+  - readSavedUnlimitedFilters(): saved filters (NO_FILTERS if none/invalid)
+  - writeSavedUnlimitedFilters(filters): stores filters
+    (only callable from Server Actions / Route Handlers)
+*/
+
+import { cookies } from "next/headers"; // Request cookies (server-only)
+import { UnlimitedFiltersSchema } from "@/lib/schemas"; // Validation
+import { NO_FILTERS, type UnlimitedFilters } from "@/lib/unlimitedFilters"; // Filter shape
+
+const COOKIE_NAME = "pokedexdle_unlimited_filters";
+
+/* -------------------------------------------------------------------------- */
+/*                          readSavedUnlimitedFilters                         */
+/* -------------------------------------------------------------------------- */
+export async function readSavedUnlimitedFilters(): Promise<UnlimitedFilters> {
+  const cookieStore = await cookies();
+  const raw = cookieStore.get(COOKIE_NAME)?.value;
+
+  if (!raw) return NO_FILTERS;
+
+  try {
+    const parsed = UnlimitedFiltersSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : NO_FILTERS;
+  } catch {
+    return NO_FILTERS;
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                         writeSavedUnlimitedFilters                         */
+/* -------------------------------------------------------------------------- */
+export async function writeSavedUnlimitedFilters(filters: UnlimitedFilters) {
+  const cookieStore = await cookies();
+  cookieStore.set(COOKIE_NAME, JSON.stringify(filters), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: 60 * 60 * 24 * 365, // One year
+  });
+}
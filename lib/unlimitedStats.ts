@@ -0,0 +1,79 @@
+/* -------------------------------------------------------------------------- */
+/*                              unlimitedStats.ts                             */
+/* -------------------------------------------------------------------------- */
+/*
+  Stats of unlimited games (kept apart from the daily stats).
+
+  Unlimited puzzles have no calendar, so the streak is a survival streak:
+  consecutive wins in the order the games were played, broken by any loss.
+
+  Used by the server (games table, lib/actions/stats) and the browser
+  (localStorage records of logged-out players, lib/cookieStats), so it is
+  safe to import from client components.
+
+  Exports:
+  - UnlimitedStats: stats shape rendered by GameClient and the history page
+  - UnlimitedResult: one finished game
+  - UnlimitedGameRecord: a finished game as listed in the history
+  - EMPTY_UNLIMITED_STATS: stats before the first game
+  - calculateUnlimitedStats(results): stats from finished games
+*/
+
+export type UnlimitedStats = {
+  totalGames: number; // Finished unlimited games
+  totalWins: number; // Games solved
+  averageAttempts: number | null; // Mean attempts of solved games (null before the first win)
+  currentStreak: number; // Wins since the last loss
+  bestStreak: number; // Longest run of consecutive wins
+};
+
+// One finished game
+export type UnlimitedResult = {
+  won: boolean;
+  attempts: number; // Guesses used
+};
+
+// Finished game in the history (database rows and localStorage records)
+export type UnlimitedGameRecord = UnlimitedResult & {
+  seed: string; // Puzzle seed
+  filters: string; // Canonical pool filters query ("" = none)
+  pokemonName: string; // The answer
+  playedAt: string; // ISO timestamp the game was played (play order)
+};
+
+export const EMPTY_UNLIMITED_STATS: UnlimitedStats = {
+  totalGames: 0,
+  totalWins: 0,
+  averageAttempts: null,
+  currentStreak: 0,
+  bestStreak: 0,
+};
+
+/* -------------------------------------------------------------------------- */
+/*                          calculateUnlimitedStats                           */
+/* -------------------------------------------------------------------------- */
+/*
+  results must be in play order (oldest first).
+*/
+export function calculateUnlimitedStats(
+  results: UnlimitedResult[],
+): UnlimitedStats {
+  let streak = 0;
+  let bestStreak = 0;
+
+  for (const result of results) {
+    streak = result.won ? streak + 1 : 0;
+    bestStreak = Math.max(bestStreak, streak);
+  }
+
+  const wins = results.filter((result) => result.won);
+  const totalAttempts = wins.reduce((sum, result) => sum + result.attempts, 0);
+
+  return {
+    totalGames: results.length,
+    totalWins: wins.length,
+    averageAttempts: wins.length > 0 ? totalAttempts / wins.length : null,
+    currentStreak: streak,
+    bestStreak,
+  };
+}
@@ -1,6 +1,11 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // The Pokémon catalog (and bundled cries, if any) is read from disk at
+  // runtime, so ship it with every route
+  outputFileTracingIncludes: {
+    '/**': ['./lib/pokemon/data/catalog.json', './lib/pokemon/data/cries/**'],
+  },
   images: {
     remotePatterns: [
       {
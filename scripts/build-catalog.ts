@@ -0,0 +1,211 @@
+/* -------------------------------------------------------------------------- */
+/*                              build-catalog.ts                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Builds the offline Pokémon catalog snapshot (lib/pokemon/data/catalog.json).
+
+  What this file does:
+  - Fetches every species from PokéAPI (names, generation, colour,
+    flavor text, evolution chain, varieties)
+  - Fetches every variety (types, height, weight, sprites, cry)
+  - Writes one versioned JSON file the app reads at runtime
+
+  This is the only place that talks to PokéAPI. Run it manually with
+  `npm run catalog` whenever the data (or CATALOG_VERSION) changes, and
+  commit the resulting file.
+
+  `npm run catalog -- --cries` also downloads every cry into
+  lib/pokemon/data/cries, so the cry hint works without network access.
+*/
+
+import { mkdirSync, writeFileSync } from "fs";
+import path from "path";
+import Pokedex from "pokedex-promise-v2";
+import {
+  CATALOG_PATH,
+  CATALOG_VERSION,
+  CRIES_DIR,
+  type CatalogSpecies,
+  type CatalogVariety,
+  type PokemonCatalog,
+} from "@/lib/pokemon/catalog";
+
+/* -------------------------- Initialize API Client -------------------------- */
+
+const P = new Pokedex();
+
+// How many PokéAPI requests run at the same time
+const CONCURRENCY = 8;
+
+// Whether to bundle cry audio as well
+const DOWNLOAD_CRIES = process.argv.includes("--cries");
+
+/* -------------------------------------------------------------------------- */
+/*                                  Helpers                                   */
+/* -------------------------------------------------------------------------- */
+
+// Extract the numeric id from a PokéAPI resource URL (".../evolution-chain/1/")
+function idFromUrl(url: string) {
+  return Number(url.split("/").filter(Boolean).pop());
+}
+
+// Convert "generation-iii" to 3
+function generationToNumber(generation: string) {
+  const numerals: Record<string, number> = { i: 1, v: 5, x: 10 };
+  const roman = generation.replace("generation-", "");
+
+  let total = 0;
+  for (let i = 0; i < roman.length; i++) {
+    const current = numerals[roman[i]];
+    const next = numerals[roman[i + 1]] ?? 0;
+    total += current < next ? -current : current;
+  }
+
+  return total;
+}
+
+// Map over items with at most `limit` promises in flight
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+) {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  await Promise.all(Array.from({ length: limit }, worker));
+  return results;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Main Function                                */
+/* -------------------------------------------------------------------------- */
+async function buildCatalog() {
+  console.log("Fetching species list...");
+
+  const speciesList = await P.getPokemonSpeciesList({ limit: 100000 });
+
+  console.log(`Fetching ${speciesList.results.length} species...`);
+
+  const speciesData = await mapWithConcurrency(
+    speciesList.results,
+    CONCURRENCY,
+    (entry) => P.getPokemonSpeciesByName(entry.name),
+  );
+
+  /* ------------------------------- Species -------------------------------- */
+
+  console.log("Fetching varieties...");
+
+  const species: CatalogSpecies[] = await mapWithConcurrency(
+    speciesData,
+    CONCURRENCY,
+    async (data) => {
+      const varieties: CatalogVariety[] = await Promise.all(
+        data.varieties.map(async (entry) => {
+          const pokemon = await P.getPokemonByName(entry.pokemon.name);
+
+          return {
+            id: pokemon.id,
+            name: pokemon.name,
+            isDefault: entry.is_default,
+            types: pokemon.types
+              .slice()
+              .sort((a, b) => a.slot - b.slot)
+              .map((type) => type.type.name),
+            height: pokemon.height,
+            weight: pokemon.weight,
+            sprites: {
+              front: pokemon.sprites.front_default ?? null,
+              artwork:
+                pokemon.sprites.other?.["official-artwork"]?.front_default ??
+                null,
+            },
+            cry: pokemon.cries?.latest ?? null,
+          };
+        }),
+      );
+
+      return {
+        dexNumber: data.id,
+        name: data.name,
+        displayName:
+          data.names.find((name) => name.language.name === "en")?.name ??
+          data.name,
+        generation: generationToNumber(data.generation.name),
+        color: data.color.name,
+        evolutionChainId: data.evolution_chain
+          ? idFromUrl(data.evolution_chain.url)
+          : null,
+        evolvesFrom: data.evolves_from_species?.name ?? null,
+        flavorTexts: data.flavor_text_entries
+          .filter((entry) => entry.language.name === "en")
+          .map((entry) => ({
+            version: entry.version.name,
+            text: entry.flavor_text,
+          })),
+        // Default form first, then the rest in PokéAPI order
+        varieties: varieties.sort(
+          (a, b) => Number(b.isDefault) - Number(a.isDefault),
+        ),
+      };
+    },
+  );
+
+  /* -------------------------------- Write --------------------------------- */
+
+  const catalog: PokemonCatalog = {
+    version: CATALOG_VERSION,
+    generatedAt: new Date().toISOString(),
+    species: species.sort((a, b) => a.dexNumber - b.dexNumber),
+  };
+
+  mkdirSync(path.dirname(CATALOG_PATH), { recursive: true });
+  writeFileSync(CATALOG_PATH, `${JSON.stringify(catalog, null, 2)}\n`);
+
+  console.log(
+    `Wrote ${catalog.species.length} species (v${CATALOG_VERSION}) to ${CATALOG_PATH}`,
+  );
+
+  /* ----------------------------- Cries (opt-in) ---------------------------- */
+
+  if (!DOWNLOAD_CRIES) return;
+
+  const withCries = catalog.species
+    .flatMap((entry) => entry.varieties)
+    .filter((variety) => variety.cry);
+
+  console.log(`Downloading ${withCries.length} cries...`);
+
+  mkdirSync(CRIES_DIR, { recursive: true });
+
+  await mapWithConcurrency(withCries, CONCURRENCY, async (variety) => {
+    const response = await fetch(variety.cry!);
+    if (!response.ok) {
+      console.warn(`Skipping cry for ${variety.name} (${response.status})`);
+      return;
+    }
+
+    writeFileSync(
+      path.join(CRIES_DIR, `${variety.name}.ogg`),
+      Buffer.from(await response.arrayBuffer()),
+    );
+  });
+
+  console.log(`Wrote cries to ${CRIES_DIR}`);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                               Execute Script                               */
+/* -------------------------------------------------------------------------- */
+buildCatalog().catch((error) => {
+  console.error("Error building catalog:", error);
+  process.exit(1);
+});
@@ -2,14 +2,26 @@
 /*                               seed-pokemon.ts                              */
 /* -------------------------------------------------------------------------- */
 /*
-  Script to seed 1 year (365 days) of daily Pokémon into the database.
+  Script to fill the daily Pokémon schedule (daily_pokemon table).
 
   What this file does:
-  - Fetches the full Pokémon list from PokéAPI
-  - Shuffles the list
-  - Generates 365 future dates starting from today
-  - Assigns one Pokémon per day
-  - Upserts them into the "daily_pokemon" table
+  - Reads the answer pool (lib/pokemon/pools) from the offline catalog
+  - For every daily track (lib/tracks), loads the days already scheduled
+  - Plans only the missing dates from tomorrow on (lib/schedule): today
+    (in any timezone) and the past are never touched, and neither is any
+    scheduled day
+  - Balances generations, types and evolution stages within each week and
+    follows the theme rules in lib/scheduleThemes
+  - Prints the distribution of each track's plan
+  - Inserts the new days (a day scheduled in the meantime is skipped,
+    never replaced)
+
+  Options (`npm run seed -- --days=365 --window=365 --seed=abc --dry-run`):
+  - --days: how many days ahead to cover (default 365)
+  - --window: no species twice within this many days (default 365)
+  - --seed: shuffle seed; the same seed and schedule give the same plan
+    (default: a random seed, printed so the run can be repeated)
+  - --dry-run: print the plan without writing anything
 
   This should be run manually (e.g. with ts-node or as a Node script).
 */
@@ -30,16 +42,68 @@ import type { Database } from "@/lib/supabase/database";
 */
 import { createClient } from "@supabase/supabase-js";
 
-/* ----------------------------- PokéAPI Wrapper ----------------------------- */
+/* ------------------------------ Pokémon Catalog ----------------------------- */
 /*
-  pokedex-promise-v2 is used to fetch Pokémon list.
+  The answer pool, read from the offline catalog snapshot
+  (built with `npm run catalog`).
 */
-import Pokedex from "pokedex-promise-v2";
+import { listAnswerPool } from "@/lib/pokemon/pools";
 
-/* -------------------------- Initialize API Clients ------------------------- */
+/* ------------------------------- Daily Tracks ------------------------------- */
+/*
+  Every track gets its own puzzle each day.
+*/
+import { DAILY_TRACKS, type DailyTrack } from "@/lib/tracks";
+
+/* --------------------------------- Planner ---------------------------------- */
+/*
+  Fills missing dates only, with the repeat window, weekly balance, themes
+  and a seeded shuffle. "Now" honors SIMULATED_NOW (lib/clock), so the
+  seed horizon can be tried ahead of time.
+*/
+import { randomBytes } from "crypto";
+import {
+  addDays,
+  planSchedule,
+  type ScheduledDay,
+  type ScheduleReport,
+} from "@/lib/schedule";
+import { SCHEDULE_THEMES } from "@/lib/scheduleThemes";
+import { dateInTimeZone } from "@/lib/timezone";
+import { envNow } from "@/lib/clock";
+
+/* --------------------------------- Options ---------------------------------- */
+
+// Value of a --name=value argument
+function readOption(name: string) {
+  const prefix = `--${name}=`;
+  return process.argv.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+// Positive whole number option (or the default)
+function readCount(name: string, fallback: number) {
+  const value = readOption(name);
+  if (value === undefined) return fallback;
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`--${name} must be a positive whole number.`);
+  }
+  return count;
+}
 
-// Create Pokedex API instance
-const P = new Pokedex();
+const DAYS = readCount("days", 365);
+const REPEAT_WINDOW = readCount("window", 365);
+const SEED = readOption("seed") ?? randomBytes(8).toString("hex");
+const DRY_RUN = process.argv.includes("--dry-run");
+
+// Rows read per request (Supabase returns at most 1000 rows at a time)
+const PAGE_SIZE = 1000;
+
+// First zone to reach a new date (UTC+14)
+const LATEST_TIME_ZONE = "Pacific/Kiritimati";
+
+/* -------------------------- Initialize API Clients ------------------------- */
 
 // Create Supabase client with service role
 const supabase = createClient<Database>(
@@ -48,86 +112,161 @@ const supabase = createClient<Database>(
 );
 
 /* -------------------------------------------------------------------------- */
-/*                         Main Seeding Function                              */
+/*                                  Helpers                                   */
 /* -------------------------------------------------------------------------- */
-async function seedYearOfPokemon() {
-  console.log("Fetching Pokemon data...");
 
-  /*
-    Fetch all available Pokémon (currently 1025).
-    limit: 1025 ensures we get all known Pokémon.
-  */
-  const allPokemon = await P.getPokemonsList({ limit: 1025 });
+// Days of a track scheduled between two dates (inclusive), paged
+async function loadScheduledDays(
+  track: DailyTrack,
+  from: string,
+  to: string,
+): Promise<ScheduledDay[]> {
+  const days: ScheduledDay[] = [];
 
-  /*
-    Shuffle the Pokémon list randomly.
-    Simple random sort for distribution across the year.
-  */
-  const shuffled = allPokemon.results.sort(() => 0.5 - Math.random());
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from("daily_pokemon")
+      .select("available_on, pokemon_name")
+      .eq("track", track)
+      .gte("available_on", from)
+      .lte("available_on", to)
+      .order("available_on")
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Could not load ${track} schedule: ${error.message}`);
+
+    days.push(
+      ...data.map((row) => ({
+        date: row.available_on,
+        pokemonName: row.pokemon_name,
+      })),
+    );
+
+    if (data.length < PAGE_SIZE) return days;
+  }
+}
+
+// "1: 40, 2: 38, ..." (largest first)
+function formatCounts(counts: Record<string, number>) {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([key, count]) => `${key}: ${count}`)
+    .join(", ");
+}
+
+// Distribution of a track's plan
+function printReport(track: DailyTrack, report: ScheduleReport) {
+  if (report.planned === 0) return;
+
+  console.log(`[${track}] Generations: ${formatCounts(report.generations)}`);
+  console.log(`[${track}] Types: ${formatCounts(report.types)}`);
+  console.log(`[${track}] Evolution stages: ${formatCounts(report.stages)}`);
+  console.log(
+    `[${track}] Most in one week: generation ${report.worstWeek.generation},`,
+    `type ${report.worstWeek.type}, stage ${report.worstWeek.stage}`,
+  );
+
+  if (Object.keys(report.themes).length > 0) {
+    console.log(`[${track}] Themes: ${formatCounts(report.themes)}`);
+  }
+  if (report.themeFallbacks.length > 0) {
+    console.log(
+      `[${track}] No theme species left (whole pool used): ${report.themeFallbacks.join(", ")}`,
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                         Main Seeding Function                              */
+/* -------------------------------------------------------------------------- */
+async function seedSchedule() {
+  console.log("Loading Pokemon data...");
 
   /*
-    entries will store all 365 rows that will be inserted.
+    Every Pokémon that can be an answer (one per species by default;
+    megas, Gigantamax and cosmetic forms are never included).
   */
-  const entries: {
-    available_on: string;
-    pokemon_name: string;
-  }[] = [];
+  const pool = listAnswerPool();
 
   /*
-    Start date = today.
-    Each next day increments from this date.
+    Today is live and never changed: planning starts tomorrow. Players get
+    the day of their own timezone, so "today" is the date in the zone
+    furthest ahead (UTC+14), which may already be tomorrow in UTC.
+    (SIMULATED_NOW moves "now", see lib/clock.)
   */
-  const startDate = new Date();
+  const todayIso = dateInTimeZone(LATEST_TIME_ZONE, envNow());
+  const from = addDays(todayIso, 1);
+  const to = addDays(from, DAYS - 1);
 
-  console.log("Preparing 365 days of data...");
+  console.log(
+    `Planning ${from} to ${to} for ${DAILY_TRACKS.length} tracks`,
+    `(repeat window ${REPEAT_WINDOW} days, seed "${SEED}")${DRY_RUN ? " [dry run]" : ""}`,
+  );
 
-  /*
-    Loop 365 times to create 1 year of daily Pokémon.
-  */
-  for (let i = 0; i < 365; i++) {
+  for (const { id: track } of DAILY_TRACKS) {
     /*
-      Create a new date instance based on today.
+      Days around the range count for the repeat window too
+      (including today and the past, which are only read).
     */
-    const gameDate = new Date(startDate);
+    const existing = await loadScheduledDays(
+      track,
+      addDays(from, -(REPEAT_WINDOW - 1)),
+      addDays(to, REPEAT_WINDOW - 1),
+    );
 
     /*
-      Move forward by i days.
+      Separate seed per track, so the tracks don't share answers on the
+      same day.
     */
-    gameDate.setDate(startDate.getDate() + i);
+    const { days: plan, report } = planSchedule({
+      track,
+      pool,
+      existing,
+      from,
+      days: DAYS,
+      repeatWindow: REPEAT_WINDOW,
+      seed: `${SEED}:${track}`,
+      themes: SCHEDULE_THEMES,
+    });
+
+    console.log(
+      `\n[${track}] ${DAYS - plan.length} days already scheduled, ${plan.length} to add`,
+    );
+    printReport(track, report);
+
+    if (DRY_RUN) {
+      for (const day of plan) {
+        console.log(`  ${day.date}  ${day.pokemonName}`);
+      }
+      continue;
+    }
+
+    if (plan.length === 0) continue;
 
     /*
-      Convert date to ISO format and extract YYYY-MM-DD.
-      Example: "2026-02-17"
+      Insert only: a day scheduled since the plan was made is skipped
+      (ON CONFLICT DO NOTHING), never overwritten.
     */
-    const dateString = gameDate.toISOString().split("T")[0];
+    const { data, error } = await supabase
+      .from("daily_pokemon")
+      .upsert(
+        plan.map((day) => ({
+          available_on: day.date,
+          pokemon_name: day.pokemonName,
+          track,
+        })),
+        { onConflict: "available_on,track", ignoreDuplicates: true },
+      )
+      .select("id");
 
     /*
-      Add entry for this date.
-      If we somehow exceed Pokémon count, it loops using modulo.
+      Error handling and logging.
     */
-    entries.push({
-      available_on: dateString,
-      pokemon_name: shuffled[i % shuffled.length].name,
-    });
-  }
-
-  /*
-    Upsert into daily_pokemon table.
-
-    onConflict: "available_on"
-    - If a row with same date exists, it will update it instead of failing.
-  */
-  const { error } = await supabase
-    .from("daily_pokemon")
-    .upsert(entries, { onConflict: "available_on" });
-
-  /*
-    Error handling and logging.
-  */
-  if (error) {
-    console.error("Error seeding data:", error.message);
-  } else {
-    console.log("1 year of Pokédle is ready.");
+    if (error) {
+      console.error(`[${track}] Error seeding data:`, error.message);
+    } else {
+      console.log(`[${track}] Added ${data.length} days.`);
+    }
   }
 }
 
@@ -137,4 +276,7 @@ async function seedYearOfPokemon() {
 /*
   Immediately run the seeding function.
 */
-seedYearOfPokemon();
+seedSchedule().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
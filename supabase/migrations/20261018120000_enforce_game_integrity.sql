@@ -0,0 +1,51 @@
+-- -----------------------------------------------------------------------------
+-- Enforce game integrity in the database
+-- -----------------------------------------------------------------------------
+-- - One game per user per daily puzzle (concurrent requests cannot create two)
+-- - One guess per attempt number per game, at most 6 attempts
+-- - No repeated guess names within a game
+-- -----------------------------------------------------------------------------
+
+-- Remove duplicate games created by earlier races (keep the oldest one)
+delete from public.guesses
+where game_id in (
+  select g.id
+  from public.games g
+  join public.games keep
+    on keep.user_id = g.user_id
+   and keep.daily_pokemon_id = g.daily_pokemon_id
+   and (keep.created_at, keep.id) < (g.created_at, g.id)
+);
+
+delete from public.games g
+using public.games keep
+where keep.user_id = g.user_id
+  and keep.daily_pokemon_id = g.daily_pokemon_id
+  and (keep.created_at, keep.id) < (g.created_at, g.id);
+
+-- Remove duplicate attempt numbers (keep the oldest guess)
+delete from public.guesses g
+using public.guesses keep
+where keep.game_id = g.game_id
+  and keep.attempt_number = g.attempt_number
+  and (keep.created_at, keep.id) < (g.created_at, g.id);
+
+-- Remove repeated guess names (keep the oldest guess)
+delete from public.guesses g
+using public.guesses keep
+where keep.game_id = g.game_id
+  and lower(keep.guess_name) = lower(g.guess_name)
+  and (keep.created_at, keep.id) < (g.created_at, g.id);
+
+alter table public.games
+  add constraint games_user_daily_pokemon_key unique (user_id, daily_pokemon_id);
+
+alter table public.guesses
+  add constraint guesses_game_attempt_key unique (game_id, attempt_number);
+
+alter table public.guesses
+  add constraint guesses_attempt_number_range
+  check (attempt_number between 1 and 6) not valid;
+
+create unique index if not exists guesses_game_guess_name_key
+  on public.guesses (game_id, lower(guess_name));
@@ -0,0 +1,10 @@
+-- -----------------------------------------------------------------------------
+-- Flag games imported from a browser's local history
+-- -----------------------------------------------------------------------------
+-- Games transferred from localStorage after sign-up are verified on the server,
+-- but were not played against the database. Stats and leaderboards can use
+-- this flag to treat them differently.
+-- -----------------------------------------------------------------------------
+
+alter table public.games
+  add column imported boolean not null default false;
@@ -0,0 +1,19 @@
+-- -----------------------------------------------------------------------------
+-- Separate archive replays from live daily games
+-- -----------------------------------------------------------------------------
+-- Past daily puzzles can be replayed from /archive/<date>. Those games are
+-- stored with mode = 'archive' so they never count towards the daily streak
+-- or daily stats, and a player can replay a day they already played live.
+-- -----------------------------------------------------------------------------
+
+alter table public.games
+  add column mode text not null default 'daily'
+  check (mode in ('daily', 'archive'));
+
+-- One game per user per daily puzzle *per mode*
+alter table public.games
+  drop constraint games_user_daily_pokemon_key;
+
+alter table public.games
+  add constraint games_user_daily_pokemon_mode_key
+  unique (user_id, daily_pokemon_id, mode);
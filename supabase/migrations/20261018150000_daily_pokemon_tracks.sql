@@ -0,0 +1,19 @@
+-- -----------------------------------------------------------------------------
+-- Multiple daily puzzle tracks
+-- -----------------------------------------------------------------------------
+-- Every track (classic, silhouette, Pokédex entry) has its own puzzle each
+-- day. Existing rows become the classic track. Games keep linking to a
+-- daily_pokemon row, so a game belongs to exactly one track.
+-- -----------------------------------------------------------------------------
+
+alter table public.daily_pokemon
+  add column track text not null default 'classic'
+  check (track in ('classic', 'silhouette', 'dexEntry'));
+
+-- One puzzle per day *per track*
+alter table public.daily_pokemon
+  drop constraint if exists daily_pokemon_available_on_key;
+
+alter table public.daily_pokemon
+  add constraint daily_pokemon_available_on_track_key
+  unique (available_on, track);
@@ -0,0 +1,39 @@
+-- -----------------------------------------------------------------------------
+-- Blitz runs
+-- -----------------------------------------------------------------------------
+-- One row per timed blitz run of a logged-in player. The clock lives in
+-- this row: started_at, ends_at and round_started_at are set by the server
+-- and every guess is checked against them.
+--
+-- Players can read their own runs but never write them: the server updates
+-- runs with the service role, so a score cannot be set from the browser.
+-- version is bumped on every guess and updates are conditional on it, so
+-- two guesses sent at once cannot both count.
+-- -----------------------------------------------------------------------------
+
+create table public.blitz_runs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  started_at timestamptz not null default now(),
+  ends_at timestamptz not null,
+  score integer not null default 0 check (score >= 0),
+  round integer not null default 1 check (round >= 1),
+  round_started_at timestamptz not null default now(),
+  round_guesses text[] not null default '{}',
+  version integer not null default 0,
+  check (ends_at > started_at),
+  check (round_started_at between started_at and ends_at)
+);
+
+-- Latest run / personal best per player
+create index blitz_runs_user_started_idx
+  on public.blitz_runs (user_id, started_at desc);
+
+create index blitz_runs_user_score_idx
+  on public.blitz_runs (user_id, score desc);
+
+alter table public.blitz_runs enable row level security;
+
+create policy "Players can read their own blitz runs"
+  on public.blitz_runs for select
+  using (auth.uid() = user_id);
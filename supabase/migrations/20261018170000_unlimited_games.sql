@@ -0,0 +1,52 @@
+-- -----------------------------------------------------------------------------
+-- Save unlimited games
+-- -----------------------------------------------------------------------------
+-- Logged-in players' unlimited games are stored in games with
+-- mode = 'unlimited'. They have no daily_pokemon row: the puzzle is its
+-- seed plus the canonical pool filters (the /unlimited?seed=...&gen=...
+-- query), and the answer is derived from those on the server.
+--
+-- Unlimited games have their own stats; daily stats and streaks only ever
+-- read mode = 'daily'.
+-- -----------------------------------------------------------------------------
+
+alter table public.games
+  drop constraint if exists games_mode_check;
+
+alter table public.games
+  add constraint games_mode_check
+  check (mode in ('daily', 'archive', 'unlimited'));
+
+alter table public.games
+  alter column daily_pokemon_id drop not null;
+
+alter table public.games
+  add column puzzle_seed text,
+  add column puzzle_filters text;
+
+-- Daily/archive games point at a day, unlimited games at a seed
+alter table public.games
+  add constraint games_puzzle_check
+  check (
+    case mode
+      when 'unlimited' then
+        daily_pokemon_id is null
+        and puzzle_seed is not null
+        and puzzle_filters is not null
+      else
+        daily_pokemon_id is not null
+        and puzzle_seed is null
+        and puzzle_filters is null
+    end
+  );
+
+-- One game per user per unlimited puzzle (seed + filters); rows of other
+-- modes have null seeds and never collide
+alter table public.games
+  add constraint games_user_puzzle_seed_key
+  unique (user_id, puzzle_seed, puzzle_filters);
+
+-- Recent unlimited games of a player (history, stats)
+create index if not exists games_user_unlimited_created_idx
+  on public.games (user_id, created_at desc)
+  where mode = 'unlimited';
@@ -0,0 +1,44 @@
+-- -----------------------------------------------------------------------------
+-- Admin alerts
+-- -----------------------------------------------------------------------------
+-- Things an admin should look at, recorded by the server. The first one is
+-- "daily_fallback": a track had no daily_pokemon row for today, so the
+-- server picked one itself (see lib/dailyFallback.ts) and saved it.
+--
+-- Only admins can read alerts and mark them resolved; alerts are written by
+-- the server with the service role.
+-- -----------------------------------------------------------------------------
+
+create table public.admin_alerts (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  kind text not null,
+  message text not null,
+  details jsonb not null default '{}',
+  resolved_at timestamptz
+);
+
+-- Open alerts, newest first
+create index admin_alerts_open_idx
+  on public.admin_alerts (created_at desc)
+  where resolved_at is null;
+
+alter table public.admin_alerts enable row level security;
+
+create policy "Admins can read alerts"
+  on public.admin_alerts for select
+  using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.admin
+    )
+  );
+
+create policy "Admins can resolve alerts"
+  on public.admin_alerts for update
+  using (
+    exists (
+      select 1 from public.profiles
+      where profiles.id = auth.uid() and profiles.admin
+    )
+  );
@@ -0,0 +1,18 @@
+-- -----------------------------------------------------------------------------
+-- Player timezone
+-- -----------------------------------------------------------------------------
+-- The daily puzzle of a day is "today" from midnight to midnight in the
+-- player's timezone (see lib/timezone.ts). Signed-in players keep the zone
+-- on their profile, so it follows them between devices.
+--
+-- A change does not apply right away: previous_timezone keeps deciding the
+-- day until both zones show the same date, so a change can neither skip a
+-- daily puzzle nor bring a finished one back.
+--
+-- Written by the server with the service role (lib/playerTimeZone.ts).
+-- -----------------------------------------------------------------------------
+
+alter table public.profiles
+  add column timezone text,
+  add column previous_timezone text,
+  add column timezone_changed_at timestamptz;
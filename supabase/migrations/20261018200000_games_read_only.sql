@@ -0,0 +1,42 @@
+-- -----------------------------------------------------------------------------
+-- Games and guesses are written by the server only
+-- -----------------------------------------------------------------------------
+-- Answers are checked on the server (lib/actions/guess.ts), which stores the
+-- guesses and the result with the service role. Players only read their own
+-- rows: otherwise a signed-in player could PATCH games.won / is_finished or
+-- insert guess rows through the REST API and skip the server's checks.
+--
+-- Every existing policy on both tables is replaced by a select-only one, and
+-- the write privileges of the API roles are revoked as well.
+-- -----------------------------------------------------------------------------
+
+do $$
+declare
+  existing record;
+begin
+  for existing in
+    select policyname, tablename
+    from pg_policies
+    where schemaname = 'public' and tablename in ('games', 'guesses')
+  loop
+    execute format(
+      'drop policy %I on public.%I',
+      existing.policyname,
+      existing.tablename
+    );
+  end loop;
+end $$;
+
+alter table public.games enable row level security;
+alter table public.guesses enable row level security;
+
+create policy "Players can read their own games"
+  on public.games for select
+  using (auth.uid() = user_id);
+
+create policy "Players can read their own guesses"
+  on public.guesses for select
+  using (auth.uid() = user_id);
+
+revoke insert, update, delete on public.games from anon, authenticated;
+revoke insert, update, delete on public.guesses from anon, authenticated;
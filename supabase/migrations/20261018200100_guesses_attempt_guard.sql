@@ -0,0 +1,50 @@
+-- -----------------------------------------------------------------------------
+-- Attempt limit in the database
+-- -----------------------------------------------------------------------------
+-- Guesses are only written by the server (20261018200000_games_read_only),
+-- which checks the attempt limit first. The database enforces it too, so no
+-- write path can add guesses past it:
+-- - attempt numbers stay between 1 and 6 (the earlier check, now validated)
+-- - a finished game accepts no further guesses (imported games are stored
+--   finished together with their guesses, see transferLocalStatsToUser)
+-- - a guess belongs to the same user as its game
+-- -----------------------------------------------------------------------------
+
+-- Rows beyond the limit (stored before the check existed) are removed first
+delete from public.guesses
+where attempt_number not between 1 and 6;
+
+alter table public.guesses
+  validate constraint guesses_attempt_number_range;
+
+create function public.guesses_check_game()
+returns trigger
+language plpgsql
+as $$
+declare
+  game record;
+begin
+  select user_id, is_finished, imported into game
+  from public.games
+  where id = new.game_id
+  for update;
+
+  if not found then
+    raise exception 'Game % does not exist', new.game_id;
+  end if;
+
+  if game.user_id is distinct from new.user_id then
+    raise exception 'Guess user does not match the game';
+  end if;
+
+  if game.is_finished and not game.imported then
+    raise exception 'Game % is already finished', new.game_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger guesses_check_game
+  before insert on public.guesses
+  for each row execute function public.guesses_check_game();
@@ -0,0 +1,130 @@
+/* -------------------------------------------------------------------------- */
+/*                               blitz.test.ts                                */
+/* -------------------------------------------------------------------------- */
+/*
+  The blitz clock (lib/blitz): guesses are timed by the server against the
+  run's own timestamps, and rounds move on once they are decided.
+*/
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BLITZ_DURATION_MS,
+  applyBlitzGuess,
+  checkBlitzClock,
+  newBlitzRun,
+  type BlitzRun,
+} from "@/lib/blitz";
+import { BLITZ_ATTEMPTS } from "@/lib/puzzle";
+
+process.env.PUZZLE_SECRET = "test-secret"; // Round answers
+
+const START = Date.parse("2026-10-18T12:00:00Z");
+
+const NAMES = ["porygon-z", "type-null", "mr-rime", "ho-oh", "mudkip"];
+
+// Guesses names until the round is decided (the answer is then revealed)
+async function decideRound(run: BlitzRun, names: string[], now: number) {
+  let current = run;
+
+  for (const name of names) {
+    const outcome = await applyBlitzGuess(current, name, now);
+    if ("error" in outcome) throw new Error(outcome.error);
+    if (outcome.finishedRound) return outcome;
+    current = outcome.run;
+  }
+  throw new Error("The round was never decided");
+}
+
+// Answer of a run's first round
+async function firstAnswer(runId: string) {
+  const outcome = await decideRound(newBlitzRun(runId, START), NAMES, START);
+  return outcome.finishedRound!.answer!;
+}
+
+// Guesses wrong names until the round runs out of attempts
+async function failRound(run: BlitzRun, now: number) {
+  const answer = await firstAnswer(run.id);
+  return decideRound(run, NAMES.filter((name) => name !== answer), now);
+}
+
+test("a new run lasts BLITZ_DURATION_MS from now", () => {
+  const run = newBlitzRun("run", START);
+
+  assert.equal(run.endsAt - run.startedAt, BLITZ_DURATION_MS);
+  assert.equal(run.roundStartedAt, START);
+  assert.deepEqual([run.round, run.score, run.guesses], [1, 0, []]);
+});
+
+test("guesses are on time until the end, plus a short grace period", () => {
+  const run = newBlitzRun("run", START);
+
+  assert.equal(checkBlitzClock(run, START), null);
+  assert.equal(checkBlitzClock(run, run.endsAt), null);
+  assert.equal(checkBlitzClock(run, run.endsAt + 1000), null);
+  assert.equal(checkBlitzClock(run, run.endsAt + 60_000), "TIME_UP");
+});
+
+test("timestamps out of order are rejected", () => {
+  const run = newBlitzRun("run", START);
+
+  // A longer run than the budget
+  assert.equal(
+    checkBlitzClock({ ...run, endsAt: run.endsAt + 60_000 }, START),
+    "CLOCK_MISMATCH",
+  );
+  // A round that starts before the run or after its end
+  assert.equal(
+    checkBlitzClock({ ...run, roundStartedAt: START - 1 }, START),
+    "CLOCK_MISMATCH",
+  );
+  assert.equal(
+    checkBlitzClock({ ...run, roundStartedAt: run.endsAt + 1 }, run.endsAt),
+    "CLOCK_MISMATCH",
+  );
+  // A guess before its round started
+  assert.equal(
+    checkBlitzClock({ ...run, roundStartedAt: START + 5000 }, START + 1000),
+    "CLOCK_MISMATCH",
+  );
+});
+
+test("a repeated guess in the same round is rejected", async () => {
+  const run = newBlitzRun("run", START);
+
+  const first = await applyBlitzGuess(run, "porygon-z", START + 1000);
+  assert.ok(!("error" in first));
+
+  const again = await applyBlitzGuess(first.run, "porygon-z", START + 2000);
+  assert.deepEqual(again, { error: "DUPLICATE_GUESS" });
+});
+
+test("a round ends when its attempts run out, without scoring", async () => {
+  const run = newBlitzRun("run", START);
+  const outcome = await failRound(run, START + 10_000);
+
+  assert.equal(outcome.correct, false);
+  assert.equal(outcome.finishedRound!.guesses.length, BLITZ_ATTEMPTS);
+  assert.equal(outcome.run.round, 2);
+  assert.equal(outcome.run.score, 0);
+  assert.equal(outcome.run.roundStartedAt, START + 10_000);
+  assert.deepEqual(outcome.run.guesses, []);
+});
+
+test("a solved round scores and starts the next one", async () => {
+  const run = newBlitzRun("solved", START);
+  const answer = await firstAnswer(run.id);
+
+  const outcome = await applyBlitzGuess(run, answer, START + 5000);
+  assert.ok(!("error" in outcome));
+  assert.equal(outcome.correct, true);
+  assert.equal(outcome.run.score, 1);
+  assert.equal(outcome.run.round, 2);
+});
+
+test("a round decided in the grace period starts the next one at the end", async () => {
+  const run = newBlitzRun("late", START);
+  const outcome = await failRound(run, run.endsAt + 1000);
+
+  assert.equal(outcome.run.roundStartedAt, run.endsAt);
+});
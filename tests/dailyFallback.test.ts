@@ -0,0 +1,61 @@
+/* -------------------------------------------------------------------------- */
+/*                           dailyFallback.test.ts                            */
+/* -------------------------------------------------------------------------- */
+/*
+  The fallback daily puzzle (lib/dailyFallback): a deterministic pick from
+  the answer pool, only saved for a date that is live somewhere right now.
+*/
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isLiveDate, pickFallbackPokemon } from "@/lib/dailyFallback";
+import { listAnswerPool } from "@/lib/pokemon/pools";
+
+process.env.PUZZLE_SECRET = "test-secret"; // Default salt
+delete process.env.DAILY_FALLBACK_SALT;
+
+test("a date is live from UTC+14 midnight until UTC-12 midnight", () => {
+  // 2026-10-18 starts at 10:00 UTC the day before (UTC+14)...
+  assert.equal(isLiveDate("2026-10-18", Date.parse("2026-10-17T09:59:00Z")), false);
+  assert.equal(isLiveDate("2026-10-18", Date.parse("2026-10-17T10:00:00Z")), true);
+
+  // ...and ends at 12:00 UTC the day after (UTC-12)
+  assert.equal(isLiveDate("2026-10-18", Date.parse("2026-10-19T11:59:00Z")), true);
+  assert.equal(isLiveDate("2026-10-18", Date.parse("2026-10-19T12:00:00Z")), false);
+});
+
+test("the pick depends only on the date, the track and the salt", () => {
+  const pick = pickFallbackPokemon("2026-10-18", "classic", []);
+
+  assert.ok(pick && listAnswerPool().includes(pick));
+  assert.equal(pickFallbackPokemon("2026-10-18", "classic", []), pick);
+
+  const days = Array.from({ length: 10 }, (_, index) =>
+    pickFallbackPokemon(`2026-11-${index + 10}`, "classic", []),
+  );
+  assert.ok(new Set(days).size > 1, "every day should not get the same pick");
+});
+
+test("the salt changes the pick", () => {
+  const dates = Array.from({ length: 10 }, (_, index) => `2026-11-${index + 10}`);
+  const picks = () => dates.map((date) => pickFallbackPokemon(date, "classic", []));
+
+  const withSecret = picks();
+  process.env.DAILY_FALLBACK_SALT = "other-salt";
+  try {
+    assert.notDeepEqual(picks(), withSecret);
+  } finally {
+    delete process.env.DAILY_FALLBACK_SALT;
+  }
+});
+
+test("recent answers are skipped while the pool allows it", () => {
+  const pick = pickFallbackPokemon("2026-10-18", "classic", [])!;
+  const next = pickFallbackPokemon("2026-10-18", "classic", [pick]);
+
+  assert.ok(next);
+  assert.notEqual(next, pick);
+
+  // Every answer is recent: a pick is still made
+  assert.ok(pickFallbackPokemon("2026-10-18", "classic", listAnswerPool()));
+});
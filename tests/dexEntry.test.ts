@@ -0,0 +1,71 @@
+/* -------------------------------------------------------------------------- */
+/*                              dexEntry.test.ts                              */
+/* -------------------------------------------------------------------------- */
+/*
+  The redacted Pokédex entry hint (lib/hints/dexEntry): names that give the
+  answer away are masked, and everyone on a puzzle sees the same entry.
+*/
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MASK, redactedDexEntry } from "@/lib/hints/dexEntry";
+import { getPokemonProfile } from "@/lib/pokemon/repository";
+
+// A fixture Pokémon with its own entries
+function withEntries(name: string, flavorTexts: string[]) {
+  const profile = getPokemonProfile(name);
+  assert.ok(profile, name);
+  return { ...profile, flavorTexts };
+}
+
+test("the answer and its evolution relatives are masked", () => {
+  const pikachu = withEntries("pikachu", [
+    "PIKACHU's cheeks spark. It evolves from Pichu and into Raichu.",
+  ]);
+
+  assert.equal(
+    redactedDexEntry(pikachu, "daily:2026-10-18"),
+    `${MASK}'s cheeks spark. It evolves from ${MASK} and into ${MASK}.`,
+  );
+});
+
+test("names with punctuation are masked whole", () => {
+  const mrMime = withEntries("mr-mime", [
+    "Mr. Mime grows from Mime Jr. and is related to mr rime.",
+  ]);
+
+  assert.equal(
+    redactedDexEntry(mrMime, "daily:2026-10-18"),
+    `${MASK} grows from ${MASK} and is related to ${MASK}.`,
+  );
+});
+
+test("only whole words are masked", () => {
+  const pikachu = withEntries("pikachu", ["Pikachus and Pichuland stay as they are."]);
+
+  assert.equal(
+    redactedDexEntry(pikachu, "daily:2026-10-18"),
+    "Pikachus and Pichuland stay as they are.",
+  );
+});
+
+test("the same puzzle always picks the same entry", () => {
+  const entries = Array.from({ length: 8 }, (_, index) => `Entry ${index}.`);
+  const gengar = withEntries("gengar", entries);
+
+  const picks = new Set(
+    ["daily:2026-10-18", "daily:2026-10-19", "daily:2026-10-20", "archive:x"].map(
+      (key) => redactedDexEntry(gengar, key),
+    ),
+  );
+
+  assert.equal(
+    redactedDexEntry(gengar, "daily:2026-10-18"),
+    redactedDexEntry(gengar, "daily:2026-10-18"),
+  );
+  assert.ok(picks.size > 1, "different puzzles should not all share one entry");
+});
+
+test("no entries gives no hint", () => {
+  assert.equal(redactedDexEntry(withEntries("gengar", []), "daily:2026-10-18"), null);
+});
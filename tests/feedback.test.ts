@@ -0,0 +1,79 @@
+/* -------------------------------------------------------------------------- */
+/*                              feedback.test.ts                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Guess feedback (lib/feedback): every tile holds the guessed Pokémon's own
+  value and how it relates to the answer, never the answer's value.
+*/
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compareGuess } from "@/lib/feedback";
+import { getPokemonProfile } from "@/lib/pokemon/repository";
+
+function profile(name: string) {
+  const found = getPokemonProfile(name);
+  assert.ok(found, name);
+  return found;
+}
+
+test("the answer itself matches on every tile", () => {
+  const gengar = profile("gengar");
+  const feedback = compareGuess(gengar, gengar);
+
+  for (const key of [
+    "primaryType",
+    "secondaryType",
+    "generation",
+    "evolutionStage",
+    "height",
+    "weight",
+    "color",
+  ] as const) {
+    assert.equal(feedback[key].status, "match", key);
+  }
+  assert.equal(feedback.height.direction, null);
+});
+
+test("numbers point from the guess towards the answer", () => {
+  // Mudkip (gen 3, 0.4 m, 7.6 kg) against Charizard (gen 1, 1.7 m, 90.5 kg)
+  const feedback = compareGuess(profile("mudkip"), profile("charizard"));
+
+  assert.deepEqual(feedback.generation, { value: 3, status: "miss", direction: "lower" });
+  assert.deepEqual(feedback.evolutionStage, { value: 1, status: "miss", direction: "higher" });
+  assert.equal(feedback.height.direction, "higher");
+  assert.equal(feedback.weight.direction, "higher");
+  assert.deepEqual(feedback.color, { value: "blue", status: "miss" });
+});
+
+test("a type in the answer's other slot is partial", () => {
+  // Bulbasaur (grass/poison) against a poison/grass answer
+  const answer = { ...profile("bulbasaur"), types: ["poison", "grass"] };
+  const feedback = compareGuess(profile("bulbasaur"), answer);
+
+  assert.deepEqual(feedback.primaryType, { value: "grass", status: "partial" });
+  assert.deepEqual(feedback.secondaryType, { value: "poison", status: "partial" });
+});
+
+test("a missing secondary type matches only an answer without one", () => {
+  const charmander = profile("charmander");
+
+  assert.deepEqual(compareGuess(charmander, profile("squirtle")).secondaryType, {
+    value: null,
+    status: "match",
+  });
+  assert.deepEqual(compareGuess(charmander, profile("gengar")).secondaryType, {
+    value: null,
+    status: "miss",
+  });
+});
+
+test("tiles only hold the guess's own values", () => {
+  const guess = profile("pikachu");
+  const feedback = compareGuess(guess, profile("gengar"));
+
+  assert.equal(feedback.name, "pikachu");
+  assert.equal(feedback.primaryType.value, "electric");
+  assert.equal(feedback.weight.value, guess.weight);
+  assert.ok(!JSON.stringify(feedback).includes("ghost"));
+});
@@ -0,0 +1,63 @@
+/* -------------------------------------------------------------------------- */
+/*                             guessRules.test.ts                             */
+/* -------------------------------------------------------------------------- */
+/*
+  The rules createGuess applies before storing a guess (planGuess in
+  lib/puzzle): the server decides correctness, the attempt and when the
+  game is over.
+*/
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_ATTEMPTS, planGuess } from "@/lib/puzzle";
+
+const WRONG = ["bulbasaur", "ivysaur", "venusaur", "charmander", "charmeleon", "squirtle"];
+
+test("a guess is stored as the next attempt", () => {
+  assert.deepEqual(planGuess("gengar", [], "mudkip"), {
+    attemptNumber: 1,
+    correct: false,
+    isFinished: false,
+  });
+  assert.deepEqual(planGuess("mudkip", ["gengar", "pikachu"], "mudkip"), {
+    attemptNumber: 3,
+    correct: true,
+    isFinished: true,
+  });
+});
+
+test("the last attempt finishes the game", () => {
+  const previous = WRONG.slice(0, MAX_ATTEMPTS - 1);
+
+  assert.deepEqual(planGuess("gengar", previous, "mudkip"), {
+    attemptNumber: MAX_ATTEMPTS,
+    correct: false,
+    isFinished: true,
+  });
+});
+
+test("a won game takes no more guesses", () => {
+  assert.deepEqual(planGuess("gengar", ["pikachu", "mudkip"], "mudkip"), {
+    error: "GAME_FINISHED",
+  });
+});
+
+test("no guesses once the attempts are used", () => {
+  assert.deepEqual(planGuess("gengar", WRONG, "mudkip"), { error: "NO_ATTEMPTS_LEFT" });
+});
+
+test("the same Pokémon can't be guessed twice", () => {
+  assert.deepEqual(planGuess("Gengar", ["pikachu", "gengar"], "mudkip"), {
+    error: "DUPLICATE_GUESS",
+  });
+});
+
+test("guesses racing each other plan the same attempt", () => {
+  // Both requests read the same previous guesses (e.g. a double-click), so
+  // the unique (game, attempt) key lets only one of them be stored
+  const first = planGuess("gengar", ["pikachu"], "mudkip");
+  const second = planGuess("haunter", ["pikachu"], "mudkip");
+
+  assert.ok(!("error" in first) && !("error" in second));
+  assert.equal(first.attemptNumber, second.attemptNumber);
+});
@@ -0,0 +1,54 @@
+/* -------------------------------------------------------------------------- */
+/*                               pools.test.ts                                */
+/* -------------------------------------------------------------------------- */
+/*
+  Guessed names (lib/pokemon/pools): how typed names map onto the catalog.
+*/
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeGuessName, resolveGuessName } from "@/lib/pokemon/pools";
+
+test("typed names become catalog slugs", () => {
+  const cases: [string, string][] = [
+    ["Type: Null", "type-null"],
+    ["Mr.Mime", "mr-mime"],
+    ["Mr. Mime", "mr-mime"],
+    ["Mime Jr.", "mime-jr"],
+    ["Farfetch'd", "farfetchd"],
+    ["Farfetch’d", "farfetchd"],
+    ["Nidoran♀", "nidoran-f"],
+    ["  Porygon Z ", "porygon-z"],
+    ["ho_oh", "ho-oh"],
+    ["Flabébé", "flabebe"],
+  ];
+
+  for (const [typed, slug] of cases) {
+    assert.equal(normalizeGuessName(typed), slug, typed);
+  }
+});
+
+test("guesses resolve to the Pokémon they count as", () => {
+  assert.equal(resolveGuessName("Type: Null"), "type-null");
+  assert.equal(resolveGuessName("Mr.Mime"), "mr-mime");
+  assert.equal(resolveGuessName("Mime Jr."), "mime-jr");
+  assert.equal(resolveGuessName("Farfetch'd"), "farfetchd");
+  assert.equal(resolveGuessName("Nidoran♀"), "nidoran-f");
+
+  // Forms count as their species
+  assert.equal(resolveGuessName("charizard-mega-x"), "charizard");
+  assert.equal(resolveGuessName("Raichu Alola"), "raichu");
+  assert.equal(resolveGuessName("mimikyu"), "mimikyu-disguised");
+});
+
+test("hyphens may be left out", () => {
+  assert.equal(resolveGuessName("mrmime"), "mr-mime");
+  assert.equal(resolveGuessName("porygonz"), "porygon-z");
+  assert.equal(resolveGuessName("typenull"), "type-null");
+});
+
+test("anything else is not a Pokémon", () => {
+  for (const typed of ["", "   ", ".", ":", "missingno", "mr"]) {
+    assert.equal(resolveGuessName(typed), null, typed);
+  }
+});
@@ -0,0 +1,59 @@
+/* -------------------------------------------------------------------------- */
+/*                            puzzleImage.test.ts                             */
+/* -------------------------------------------------------------------------- */
+/*
+  Image stage tokens (lib/puzzleImage): a token is bound to its puzzle, so
+  the same Pokémon never gets a recognisable URL across puzzles.
+*/
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { puzzleImageUrl, readImageToken } from "@/lib/puzzleImage";
+
+process.env.PUZZLE_SECRET = "test-secret"; // Token key
+
+// Token part of an image URL
+function tokenOf(url: string) {
+  return new URL(url, "http://localhost").searchParams.get("t")!;
+}
+
+test("a token reads back as its name, stage and puzzle", () => {
+  const token = tokenOf(puzzleImageUrl("gengar", "daily:2026-10-18", "pixelated"));
+
+  assert.deepEqual(readImageToken(token), {
+    name: "gengar",
+    stage: "pixelated",
+    puzzle: "daily:2026-10-18",
+  });
+});
+
+test("a stage of a puzzle always gets the same URL", () => {
+  assert.equal(
+    puzzleImageUrl("gengar", "daily:2026-10-18", "blurred"),
+    puzzleImageUrl("gengar", "daily:2026-10-18", "blurred"),
+  );
+});
+
+test("the same Pokémon gets unrelated tokens in other puzzles", () => {
+  const first = tokenOf(puzzleImageUrl("gengar", "daily:2026-10-18", "full"));
+  const second = tokenOf(puzzleImageUrl("gengar", "daily:2026-10-19", "full"));
+
+  assert.notEqual(first, second);
+  // Not even a shared prefix (IV) that could be matched to a name
+  assert.notEqual(first.slice(0, 16), second.slice(0, 16));
+});
+
+test("tampered tokens and tokens from another secret are rejected", () => {
+  const token = tokenOf(puzzleImageUrl("gengar", "daily:2026-10-18", "full"));
+  const flipped = `${token.slice(0, -2)}${token.endsWith("AA") ? "BB" : "AA"}`;
+
+  assert.equal(readImageToken(flipped), null);
+  assert.equal(readImageToken("not-a-token"), null);
+
+  process.env.PUZZLE_SECRET = "other-secret";
+  try {
+    assert.equal(readImageToken(token), null);
+  } finally {
+    process.env.PUZZLE_SECRET = "test-secret";
+  }
+});
@@ -0,0 +1,126 @@
+/* -------------------------------------------------------------------------- */
+/*                              schedule.test.ts                              */
+/* -------------------------------------------------------------------------- */
+/*
+  planSchedule (lib/schedule) on the catalog fixture: missing days only,
+  repeat window, seed determinism, weekly balance and themes.
+*/
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { addDays, planSchedule, type SchedulePlanInput } from "@/lib/schedule";
+import { listAnswerPool } from "@/lib/pokemon/pools";
+
+// Four weeks from a Monday, no themes
+function input(overrides: Partial<SchedulePlanInput> = {}): SchedulePlanInput {
+  return {
+    track: "classic",
+    pool: listAnswerPool(),
+    existing: [],
+    from: "2026-01-05",
+    days: 28,
+    repeatWindow: 14,
+    seed: "test",
+    themes: [],
+    ...overrides,
+  };
+}
+
+test("only missing dates are planned", () => {
+  const existing = [
+    { date: "2026-01-05", pokemonName: "pikachu" },
+    { date: "2026-01-09", pokemonName: "gengar" },
+  ];
+  const { days } = planSchedule(input({ existing, days: 7 }));
+
+  const dates = days.map((day) => day.date);
+  assert.deepEqual(dates, [
+    "2026-01-06",
+    "2026-01-07",
+    "2026-01-08",
+    "2026-01-10",
+    "2026-01-11",
+  ]);
+});
+
+test("no species repeats within the window, existing days included", () => {
+  const existing = [
+    { date: "2026-01-04", pokemonName: "pikachu" }, // Just before the range
+    { date: "2026-01-20", pokemonName: "gengar" }, // Inside the range
+  ];
+  const { days } = planSchedule(input({ existing, days: 60 }));
+
+  const all = [...existing, ...days].sort((a, b) => a.date.localeCompare(b.date));
+
+  all.forEach((day, index) => {
+    for (const other of all.slice(index + 1)) {
+      if (other.date >= addDays(day.date, 14)) break;
+      assert.notEqual(other.pokemonName, day.pokemonName, `${day.date} / ${other.date}`);
+    }
+  });
+});
+
+test("the same seed gives the same plan", () => {
+  assert.deepEqual(planSchedule(input()), planSchedule(input()));
+  assert.notDeepEqual(
+    planSchedule(input()).days,
+    planSchedule(input({ seed: "other" })).days,
+  );
+});
+
+test("a week's pick shares as little as possible with its other days", () => {
+  // Monday to Saturday: Gen 1, poison
+  const existing = [
+    "bulbasaur", "ivysaur", "venusaur", "gastly", "haunter", "gengar",
+  ].map((pokemonName, index) => ({
+    date: addDays("2026-01-05", index),
+    pokemonName,
+  }));
+
+  for (const seed of ["a", "b", "c", "d"]) {
+    const { days } = planSchedule(
+      input({ existing, pool: ["nidoran-f", "mudkip"], days: 7, repeatWindow: 1, seed }),
+    );
+    assert.deepEqual(days, [{ date: "2026-01-11", pokemonName: "mudkip" }]);
+  }
+});
+
+test("themed days pick the theme's answers, and fall back once they run out", () => {
+  const { days, report } = planSchedule(
+    input({
+      from: "2026-10-25",
+      days: 7,
+      repeatWindow: 7,
+      themes: [
+        { name: "Ghosts", from: "10-25", to: "10-31", filters: { types: ["ghost"] } },
+      ],
+    }),
+  );
+
+  const ghosts = ["gastly", "haunter", "gengar", "mimikyu-disguised"];
+  const themed = days.filter((day) => ghosts.includes(day.pokemonName));
+
+  assert.equal(themed.length, ghosts.length);
+  assert.equal(report.themes.Ghosts, ghosts.length);
+  assert.equal(report.themeFallbacks.length, 7 - ghosts.length);
+});
+
+test("a theme can be a fixed list for one track", () => {
+  const themes = [
+    {
+      name: "Starters",
+      from: "02-27",
+      to: "02-27",
+      pokemon: ["bulbasaur", "charmander", "squirtle"],
+      tracks: ["classic" as const],
+    },
+  ];
+
+  const classic = planSchedule(input({ from: "2026-02-27", days: 1, themes }));
+  assert.ok(["bulbasaur", "charmander", "squirtle"].includes(classic.days[0].pokemonName));
+
+  const other = planSchedule(
+    input({ track: "silhouette", from: "2026-02-27", days: 1, themes }),
+  );
+  assert.equal(other.report.themes.Starters, undefined);
+});
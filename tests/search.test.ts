@@ -0,0 +1,53 @@
+/* -------------------------------------------------------------------------- */
+/*                               search.test.ts                               */
+/* -------------------------------------------------------------------------- */
+/*
+  Ranked name search (lib/pokemon/search) on the catalog fixture.
+*/
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { searchPokemonIndex } from "@/lib/pokemon/search";
+
+function names(query: string, limit = 10) {
+  return searchPokemonIndex(query, limit).map((result) => result.name);
+}
+
+test("an exact match comes first", () => {
+  assert.equal(names("pikachu")[0], "pikachu");
+  assert.equal(names("Mime Jr.")[0], "mime-jr");
+});
+
+test("punctuation, spacing, accents and gender symbols are ignored", () => {
+  for (const query of ["mr mime", "Mr. Mime", "mr-mime", "MR.MIME"]) {
+    assert.equal(names(query)[0], "mr-mime", query);
+  }
+  assert.equal(names("farfetchd")[0], "farfetchd");
+  assert.equal(names("Farfetch’d")[0], "farfetchd");
+  assert.equal(names("nidoran♀")[0], "nidoran-f");
+  assert.equal(names("type null")[0], "type-null");
+});
+
+test("prefix matches rank above word prefixes and substrings", () => {
+  const mime = names("mime");
+  assert.ok(mime.indexOf("mime-jr") < mime.indexOf("mr-mime"), mime.join());
+
+  // Shorter names win ties
+  assert.deepEqual(names("pi").slice(0, 2), ["pichu", "pikachu"]);
+  assert.deepEqual(names("char").sort(), ["charizard", "charmander", "charmeleon"]);
+});
+
+test("substrings and small typos still match", () => {
+  assert.ok(names("chu").includes("raichu"));
+  assert.deepEqual(names("pikachoo"), ["pikachu"]);
+  assert.deepEqual(names("xyzzy"), []);
+});
+
+test("forms that count as their species are not listed", () => {
+  assert.ok(!names("charizard").includes("charizard-gmax"));
+  assert.ok(!names("pikachu").includes("pikachu-rock-star"));
+});
+
+test("the limit is respected", () => {
+  assert.equal(searchPokemonIndex("a", 3).length, 3);
+});
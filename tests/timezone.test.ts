@@ -0,0 +1,114 @@
+/* -------------------------------------------------------------------------- */
+/*                              timezone.test.ts                              */
+/* -------------------------------------------------------------------------- */
+/*
+  Timezone switching (lib/timezone): a change never skips a day or brings
+  one back, and the next rollover is always the moment "today" changes.
+*/
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  effectiveTimeZone,
+  nextRolloverAt,
+  playerToday,
+  type TimeZoneSetting,
+} from "@/lib/timezone";
+import { addDays } from "@/lib/schedule";
+
+const HOUR = 60 * 60 * 1000;
+
+function change(from: string, to: string, at: string): TimeZoneSetting {
+  return { timeZone: to, previousTimeZone: from, changedAt: Date.parse(at) };
+}
+
+// Every date the player sees from the change on, in order
+function datesAfter(setting: TimeZoneSetting, hours: number) {
+  const dates: string[] = [];
+
+  for (let at = setting.changedAt!; at < setting.changedAt! + hours * HOUR; at += 15 * 60 * 1000) {
+    const today = playerToday(setting, at);
+    if (dates.at(-1) !== today) dates.push(today);
+  }
+  return dates;
+}
+
+// One day after the other: no day skipped, none repeated or brought back
+function assertConsecutive(dates: string[]) {
+  dates.slice(1).forEach((date, index) => {
+    assert.equal(date, addDays(dates[index], 1), dates.join(" "));
+  });
+}
+
+test("a first choice applies right away", () => {
+  const setting: TimeZoneSetting = {
+    timeZone: "Pacific/Auckland",
+    previousTimeZone: null,
+    changedAt: Date.parse("2026-10-20T14:00:00Z"),
+  };
+
+  assert.equal(playerToday(setting, setting.changedAt!), "2026-10-21");
+  assert.equal(effectiveTimeZone(setting, setting.changedAt!), "Pacific/Auckland");
+});
+
+test("New York to Auckland holds the old day until both show the same date", () => {
+  // 10:00 on the 20th in New York, 03:00 on the 21st in Auckland
+  const setting = change("America/New_York", "Pacific/Auckland", "2026-10-20T14:00:00Z");
+
+  assert.equal(playerToday(setting, setting.changedAt!), "2026-10-20");
+  assert.equal(effectiveTimeZone(setting, setting.changedAt!), "America/New_York");
+
+  // New York midnight: both on the 21st, Auckland takes over
+  const midnight = Date.parse("2026-10-21T04:00:00Z");
+  assert.equal(nextRolloverAt(setting, setting.changedAt!), midnight);
+  assert.equal(effectiveTimeZone(setting, midnight), "Pacific/Auckland");
+
+  assertConsecutive(datesAfter(setting, 72));
+});
+
+test("Auckland to New York keeps the day until New York reaches it", () => {
+  const setting = change("Pacific/Auckland", "America/New_York", "2026-10-20T14:00:00Z");
+
+  assert.equal(playerToday(setting, setting.changedAt!), "2026-10-21");
+  assertConsecutive(datesAfter(setting, 72));
+});
+
+test("Kiritimati to Pago Pago (25 hours behind) never goes back a day", () => {
+  // 10:00 on the 21st in Kiritimati, 09:00 on the 20th in Pago Pago
+  const setting = change("Pacific/Kiritimati", "Pacific/Pago_Pago", "2026-10-20T20:00:00Z");
+
+  const dates = datesAfter(setting, 96);
+  assert.equal(dates[0], "2026-10-21");
+  assertConsecutive(dates);
+
+  // Pago Pago has taken over once its date caught up
+  assert.equal(
+    effectiveTimeZone(setting, Date.parse("2026-10-22T12:00:00Z")),
+    "Pacific/Pago_Pago",
+  );
+});
+
+test("Pago Pago to Kiritimati (25 hours ahead) never skips a day", () => {
+  const setting = change("Pacific/Pago_Pago", "Pacific/Kiritimati", "2026-10-20T20:00:00Z");
+
+  const dates = datesAfter(setting, 96);
+  assert.equal(dates[0], "2026-10-20");
+  assertConsecutive(dates);
+});
+
+test("the next rollover is exactly when today changes", () => {
+  const settings = [
+    change("America/New_York", "Pacific/Auckland", "2026-10-20T14:00:00Z"),
+    change("Pacific/Auckland", "America/New_York", "2026-10-20T14:00:00Z"),
+    change("Pacific/Kiritimati", "Pacific/Pago_Pago", "2026-10-20T20:00:00Z"),
+    change("Pacific/Pago_Pago", "Pacific/Kiritimati", "2026-10-20T20:00:00Z"),
+  ];
+
+  for (const setting of settings) {
+    for (let at = setting.changedAt!; at < setting.changedAt! + 72 * HOUR; at += 37 * 60 * 1000) {
+      const rollover = nextRolloverAt(setting, at);
+      assert.equal(playerToday(setting, rollover - 1), playerToday(setting, at));
+      assert.notEqual(playerToday(setting, rollover), playerToday(setting, at));
+    }
+  }
+});
@@ -0,0 +1,49 @@
+/* -------------------------------------------------------------------------- */
+/*                           transferReplay.test.ts                           */
+/* -------------------------------------------------------------------------- */
+/*
+  Replaying imported local games (replayGuesses in lib/puzzle): the result
+  comes from the guessed names, never from what the browser claims.
+*/
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_ATTEMPTS, replayGuesses } from "@/lib/puzzle";
+
+test("a correct guess wins, and nothing after it counts", () => {
+  assert.deepEqual(replayGuesses(["Pikachu", "Mr. Mime", "gengar", "mudkip"], "mr-mime"), {
+    guessNames: ["pikachu", "mr-mime"],
+    won: true,
+    isFinished: true,
+  });
+});
+
+test("names are canonicalized and repeats count once", () => {
+  assert.deepEqual(replayGuesses(["GENGAR", "gengar ", "Charizard-Mega-X"], "mudkip"), {
+    guessNames: ["gengar", "charizard"],
+    won: false,
+    isFinished: false,
+  });
+});
+
+test("running out of attempts finishes the game as a loss", () => {
+  const names = ["bulbasaur", "ivysaur", "venusaur", "charmander", "charmeleon", "squirtle"];
+  assert.equal(names.length, MAX_ATTEMPTS);
+
+  assert.deepEqual(replayGuesses(names, "mudkip"), {
+    guessNames: names,
+    won: false,
+    isFinished: true,
+  });
+});
+
+test("unknown names or too many guesses can't be verified", () => {
+  assert.equal(replayGuesses(["missingno", "pikachu"], "pikachu"), null);
+  assert.equal(
+    replayGuesses(
+      ["bulbasaur", "ivysaur", "venusaur", "charmander", "charmeleon", "squirtle", "mudkip"],
+      "mudkip",
+    ),
+    null,
+  );
+});